@@ -7,7 +7,7 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS pg_trgm;
 
 -- Create custom types
-CREATE TYPE trip_status AS ENUM ('created', 'questions_pending', 'generating', 'ready', 'booked');
+CREATE TYPE trip_status AS ENUM ('created', 'questions_pending', 'generating', 'ready', 'booked', 'completed', 'cancelled', 'failed');
 CREATE TYPE booking_status AS ENUM ('hold', 'confirmed', 'cancelled', 'refunded');
 CREATE TYPE payment_status AS ENUM ('pending', 'processing', 'completed', 'failed');
 CREATE TYPE verification_status AS ENUM ('uploaded', 'verifying', 'verified', 'rejected', 'manual_review');
@@ -30,18 +30,26 @@ CREATE TABLE users (
 -- Trips table
 CREATE TABLE trips (
     trip_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    user_id UUID REFERENCES users(user_id),
+    user_id UUID, -- auth user id (Supabase sub); signed-in users have no users row
     destination VARCHAR(100) NOT NULL,
     message TEXT NOT NULL,
     status trip_status DEFAULT 'created',
-    dates JSONB, -- {start_date, end_date}
+    legs JSONB, -- multi-destination route: [{leg_id, destination, start_date, end_date, base_location}]
+    dates JSONB, -- {start_date, end_date}; spans all legs when present
     party_composition JSONB, -- {adults, children, infants}
     budget_per_person DECIMAL(10,2),
     preferences JSONB DEFAULT '[]'::jsonb,
     follow_up_questions JSONB DEFAULT '[]'::jsonb,
     answers JSONB DEFAULT '[]'::jsonb,
+    status_history JSONB DEFAULT '[]'::jsonb, -- [{from, to, actor, reason, transitioned_at}]
+    members JSONB DEFAULT '[]'::jsonb, -- co-travellers: [{member_id, user_id, email, role, status, ...}]
+    share_links JSONB DEFAULT '[]'::jsonb, -- [{link_id, token_hash, role, expires_at, revoked_at}]
+    activity_votes JSONB DEFAULT '[]'::jsonb, -- [{activity_id, user_id, vote, voted_at}]
+    origin JSONB, -- {type: 'clone' | 'template', source_id} for trips started from another plan
+    version INTEGER NOT NULL DEFAULT 0, -- bumped on every update; guards concurrent read-modify-write of the JSONB columns
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    deleted_at TIMESTAMP WITH TIME ZONE -- soft delete marker
 );
 
 -- Points of Interest with PostGIS
@@ -71,10 +79,42 @@ CREATE TABLE itineraries (
     currency VARCHAR(3) DEFAULT 'INR',
     days JSONB NOT NULL, -- Array of day objects with activities
     alternatives JSONB DEFAULT '[]'::jsonb,
+    optimization_metadata JSONB,
     generated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     version INTEGER DEFAULT 1
 );
 
+-- Anonymized reusable trip plans published from past itineraries
+CREATE TABLE trip_templates (
+    template_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    title VARCHAR(120) NOT NULL,
+    description TEXT,
+    destination VARCHAR(100) NOT NULL,
+    duration_days INTEGER NOT NULL,
+    party_type VARCHAR(20) NOT NULL, -- solo, couple, family, group
+    budget_band VARCHAR(20) NOT NULL, -- budget, mid_range, luxury
+    preferences JSONB DEFAULT '[]'::jsonb,
+    days JSONB NOT NULL, -- [{day, activities: [{activity_id, title, category, duration}]}]
+    published_by UUID, -- auth user id, like trips.user_id
+    source_trip_id UUID REFERENCES trips(trip_id),
+    published_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    times_used INTEGER DEFAULT 0
+);
+
+-- Idempotency-Key records for retried POSTs (e.g. trip creation), scoped per user and operation
+CREATE TABLE idempotency_requests (
+    scope VARCHAR(50) NOT NULL, -- e.g. 'trip.create'
+    user_id UUID NOT NULL,
+    idempotency_key VARCHAR(255) NOT NULL,
+    request_fingerprint CHAR(64) NOT NULL, -- sha256 of the canonical request body
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress', -- in_progress, completed
+    response_status INTEGER,
+    response_body JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (scope, user_id, idempotency_key)
+);
+
 -- Events with geospatial support
 CREATE TABLE events (
     event_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -218,6 +258,53 @@ CREATE TABLE llm_cache (
     expires_at TIMESTAMP WITH TIME ZONE NOT NULL
 );
 
+-- LLM usage ledger for budgets and spend reports (one row per provider call)
+CREATE TABLE llm_usage (
+    usage_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID,
+    task VARCHAR(100), -- PROMPT_ROUTING key
+    provider VARCHAR(50) NOT NULL,
+    tokens_used INTEGER NOT NULL,
+    cost DECIMAL(12,6) NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- LLM A/B experiments: variants per PROMPT_ROUTING task, the requests they served and outcome signals
+CREATE TABLE llm_experiments (
+    experiment_key VARCHAR(100) PRIMARY KEY,
+    task VARCHAR(100) NOT NULL,
+    unit VARCHAR(20) NOT NULL CHECK (unit IN ('user', 'trip')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'paused', 'concluded')),
+    variants JSONB NOT NULL, -- [{variant_key, weight, provider, model, template}]
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE llm_experiment_exposures (
+    exposure_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    experiment_key VARCHAR(100) NOT NULL REFERENCES llm_experiments(experiment_key),
+    variant_key VARCHAR(100) NOT NULL,
+    unit_type VARCHAR(20) NOT NULL,
+    unit_id VARCHAR(100) NOT NULL,
+    provider VARCHAR(50) NOT NULL, -- provider that answered
+    tokens_used INTEGER NOT NULL,
+    cost DECIMAL(12,6) NOT NULL,
+    trace_id VARCHAR(100),
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE llm_experiment_outcomes (
+    outcome_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    experiment_key VARCHAR(100) NOT NULL REFERENCES llm_experiments(experiment_key),
+    variant_key VARCHAR(100) NOT NULL,
+    unit_type VARCHAR(20) NOT NULL,
+    unit_id VARCHAR(100) NOT NULL,
+    signal VARCHAR(50) NOT NULL CHECK (signal IN ('itinerary_accepted', 'itinerary_edited', 'booked')),
+    trace_id VARCHAR(100),
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Sample Data Inserts
 
 -- Insert default feature flags
@@ -246,11 +333,24 @@ INSERT INTO events (title, description, category, start_date, end_date, location
 -- Create indexes for performance
 CREATE INDEX idx_trips_user_id ON trips(user_id);
 CREATE INDEX idx_trips_status ON trips(status);
+CREATE INDEX idx_trips_active ON trips(user_id, created_at DESC) WHERE deleted_at IS NULL;
+CREATE INDEX idx_trips_members ON trips USING GIN (members jsonb_path_ops);
+CREATE INDEX idx_itineraries_trip_version ON itineraries(trip_id, version DESC);
+CREATE INDEX idx_trip_templates_destination ON trip_templates(LOWER(destination));
+CREATE INDEX idx_idempotency_requests_expires_at ON idempotency_requests(expires_at);
 CREATE INDEX idx_bookings_user_id ON bookings(user_id);
 CREATE INDEX idx_bookings_status ON bookings(status);
 CREATE INDEX idx_audit_logs_trace_id ON audit_logs(trace_id);
 CREATE INDEX idx_audit_logs_created_at ON audit_logs(created_at);
 CREATE INDEX idx_llm_cache_expires_at ON llm_cache(expires_at);
+CREATE INDEX idx_llm_cache_prompt_hash ON llm_cache(prompt_hash);
+CREATE INDEX idx_llm_cache_provider ON llm_cache(provider);
+CREATE INDEX idx_llm_usage_recorded_at ON llm_usage(recorded_at);
+CREATE INDEX idx_llm_usage_user ON llm_usage(user_id, recorded_at);
+CREATE INDEX idx_llm_usage_task ON llm_usage(task, recorded_at);
+CREATE INDEX idx_llm_experiment_exposures_unit ON llm_experiment_exposures(unit_type, unit_id, recorded_at);
+CREATE INDEX idx_llm_experiment_exposures_experiment ON llm_experiment_exposures(experiment_key, variant_key);
+CREATE INDEX idx_llm_experiment_outcomes_experiment ON llm_experiment_outcomes(experiment_key, variant_key);
 
 -- Create functions for common queries
 
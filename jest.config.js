@@ -0,0 +1,20 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // The root tsconfig targets the Next.js bundler; tests run the services as CommonJS
+    '^.+\\.ts$': ['ts-jest', {
+      isolatedModules: true,
+      tsconfig: {
+        target: 'es2019',
+        module: 'commonjs',
+        moduleResolution: 'node',
+        esModuleInterop: true,
+        resolveJsonModule: true,
+      },
+    }],
+  },
+}
+
+module.exports = jestConfig
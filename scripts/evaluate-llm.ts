@@ -0,0 +1,68 @@
+/**
+ * Compares two prompt template or provider variants offline and prints the
+ * markdown report. Exits with 1 when the candidate regresses on any case.
+ *
+ *   npm run eval:llm -- --mode=fake --candidate-template=ITINERARY_GENERATION_V2
+ *   npm run eval:llm -- --mode=replay --candidate-provider=claude --out=eval.md
+ *
+ * Options: --mode (replay or fake; LLM_MODE when unset), --cases (a JSON array
+ * of cases or the sample itineraries document), --baseline-/--candidate-
+ * template, provider and model, --out for the markdown and --json for the raw
+ * report. Replay reads LLM_FIXTURES_DIR, fake reads LLM_FAKE_SCRIPT.
+ */
+import { writeFileSync } from 'fs';
+import {
+  EvaluationMode,
+  EvaluationVariant,
+  LLMEvaluationRunner,
+  formatEvaluationReport,
+  loadEvaluationCases
+} from '../src/services/llm-evaluation';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  argv.forEach(arg => {
+    const match = arg.match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) {
+      throw new Error(`Unexpected argument '${arg}'; options look like --name=value`);
+    }
+    args[match[1]] = match[2] === undefined ? 'true' : match[2];
+  });
+  return args;
+}
+
+function variantFrom(args: Record<string, string>, name: 'baseline' | 'candidate'): EvaluationVariant {
+  return {
+    name,
+    provider: args[`${name}-provider`] as EvaluationVariant['provider'],
+    model: args[`${name}-model`],
+    template: args[`${name}-template`]
+  };
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const mode = (args.mode || process.env.LLM_MODE || 'replay') as EvaluationMode;
+  const cases = loadEvaluationCases(args.cases);
+
+  const runner = new LLMEvaluationRunner(mode);
+  const report = await runner.compare(cases, variantFrom(args, 'baseline'), variantFrom(args, 'candidate'));
+  const markdown = formatEvaluationReport(report);
+
+  if (args.out) {
+    writeFileSync(args.out, markdown);
+  }
+  if (args.json) {
+    writeFileSync(args.json, JSON.stringify(report, null, 2) + '\n');
+  }
+  process.stdout.write(markdown);
+
+  return report.regressions.length > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  });
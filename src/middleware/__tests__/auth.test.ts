@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AuthError, JsonWebKeyWithId, SupabaseJwtVerifier } from '../auth';
+
+const ISSUER = 'https://project.supabase.co/auth/v1';
+const AUDIENCE = 'authenticated';
+const SECRET = 'test-jwt-secret';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const JWK: JsonWebKeyWithId = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'ES256' };
+
+function signEs256(claims: object, options: jwt.SignOptions = {}): string {
+  return jwt.sign({ sub: 'user-1', ...claims }, privateKey, {
+    algorithm: 'ES256',
+    keyid: 'key-1',
+    issuer: ISSUER,
+    audience: AUDIENCE,
+    expiresIn: '1h',
+    ...options
+  });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<AuthError> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(AuthError);
+  return error as AuthError;
+}
+
+describe('SupabaseJwtVerifier', () => {
+  const verifier = new SupabaseJwtVerifier({
+    jwt_secret: SECRET,
+    jwks: { keys: [JWK] },
+    issuer: ISSUER,
+    audience: AUDIENCE
+  });
+
+  it('accepts a valid asymmetric token and reads the tier from app_metadata', async () => {
+    const token = signEs256({ email: 'a@example.com', app_metadata: { tier: 'premium' } });
+
+    await expect(verifier.verify(token)).resolves.toEqual({
+      id: 'user-1',
+      email: 'a@example.com',
+      role: 'authenticated',
+      tier: 'premium'
+    });
+  });
+
+  it('accepts a valid HS256 token signed with the JWT secret', async () => {
+    const token = jwt.sign({ sub: 'user-2' }, SECRET, { issuer: ISSUER, audience: AUDIENCE, expiresIn: '1h' });
+
+    await expect(verifier.verify(token)).resolves.toMatchObject({ id: 'user-2', tier: 'free' });
+  });
+
+  it('rejects an expired token', async () => {
+    const token = signEs256({}, { expiresIn: -3600 });
+
+    expect((await rejection(verifier.verify(token))).code).toBe('TOKEN_EXPIRED');
+  });
+
+  it('rejects a token from another issuer', async () => {
+    const token = signEs256({}, { issuer: 'https://other.supabase.co/auth/v1' });
+
+    expect((await rejection(verifier.verify(token))).code).toBe('INVALID_TOKEN');
+  });
+
+  it('rejects a token signed with an unknown key id', async () => {
+    const token = signEs256({}, { keyid: 'key-2' });
+
+    const error = await rejection(verifier.verify(token));
+    expect(error.code).toBe('INVALID_TOKEN');
+    expect(error.message).toContain('key-2');
+  });
+
+  it('rejects a tampered token', async () => {
+    const [header, , signature] = signEs256({}).split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'admin', iss: ISSUER, aud: AUDIENCE })).toString('base64url');
+
+    expect((await rejection(verifier.verify(`${header}.${payload}.${signature}`))).code).toBe('INVALID_TOKEN');
+  });
+});
+
+describe('SupabaseJwtVerifier with a JWKS endpoint', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () =>
+      new Response(JSON.stringify({ keys: [JWK] }), { status: 200 })
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  function createVerifier(): SupabaseJwtVerifier {
+    return new SupabaseJwtVerifier({
+      jwks_url: 'https://project.supabase.co/auth/v1/.well-known/jwks.json',
+      issuer: ISSUER,
+      audience: AUDIENCE
+    });
+  }
+
+  it('shares one fetch between concurrent requests', async () => {
+    const verifier = createVerifier();
+
+    await Promise.all([verifier.verify(signEs256({})), verifier.verify(signEs256({})), verifier.verify(signEs256({}))]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches for an unknown key id at most once per refresh interval', async () => {
+    const verifier = createVerifier();
+    await verifier.verify(signEs256({}));
+
+    for (let i = 0; i < 5; i++) {
+      await rejection(verifier.verify(signEs256({}, { keyid: `forged-${i}` })));
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('picks up a rotated signing key once the refresh interval has passed', async () => {
+    const verifier = new SupabaseJwtVerifier({
+      jwks_url: 'https://project.supabase.co/auth/v1/.well-known/jwks.json',
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwks_refresh_interval_ms: 0
+    });
+    await verifier.verify(signEs256({}));
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ keys: [JWK, { ...JWK, kid: 'key-2' }] }), { status: 200 })
+    );
+
+    await expect(verifier.verify(signEs256({}, { keyid: 'key-2' }))).resolves.toMatchObject({ id: 'user-1' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes a timeout signal to the JWKS fetch', async () => {
+    await createVerifier().verify(signEs256({}));
+
+    expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+});
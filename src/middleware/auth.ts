@@ -0,0 +1,240 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+
+export type UserTier = 'free' | 'premium';
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  role: string;
+  tier: UserTier;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+export interface AuthConfig {
+  // HS256 secret (Supabase "JWT secret"); used for tokens without a `kid`
+  jwt_secret?: string;
+  // JWKS endpoint for asymmetric Supabase signing keys
+  jwks_url?: string;
+  // Static key set, mainly for tests with locally signed tokens
+  jwks?: { keys: JsonWebKeyWithId[] };
+  issuer?: string;
+  audience?: string;
+  clock_tolerance_seconds?: number;
+  jwks_cache_ttl_ms?: number;
+  // Minimum gap between unknown-kid refetches, so forged kids can't hammer the JWKS endpoint
+  jwks_refresh_interval_ms?: number;
+  jwks_fetch_timeout_ms?: number;
+}
+
+export interface JsonWebKeyWithId extends crypto.JsonWebKey {
+  kid?: string;
+  alg?: string;
+}
+
+export class AuthError extends Error {
+  constructor(
+    public readonly code: 'UNAUTHORIZED' | 'INVALID_TOKEN' | 'TOKEN_EXPIRED',
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuthError';
+    Object.setPrototypeOf(this, AuthError.prototype);
+  }
+}
+
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ['HS256', 'RS256', 'ES256'];
+
+export class SupabaseJwtVerifier {
+  private jwksCache: { keys: JsonWebKeyWithId[]; fetched_at: number } | null = null;
+  private jwksFetch: Promise<JsonWebKeyWithId[]> | null = null;
+  private lastJwksFetchAt = 0;
+
+  constructor(private config: AuthConfig) {}
+
+  async verify(token: string): Promise<AuthUser> {
+    if (!this.config.jwt_secret && !this.config.jwks_url && !this.config.jwks) {
+      throw new AuthError('INVALID_TOKEN', 'Token verification is not configured');
+    }
+
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new AuthError('INVALID_TOKEN', 'Malformed token');
+    }
+
+    const key = await this.resolveKey(decoded.header);
+
+    let payload: JwtPayload;
+    try {
+      payload = jwt.verify(token, key, {
+        algorithms: SUPPORTED_ALGORITHMS,
+        issuer: this.config.issuer,
+        audience: this.config.audience,
+        clockTolerance: this.config.clock_tolerance_seconds ?? 30
+      }) as JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AuthError('TOKEN_EXPIRED', 'Token has expired');
+      }
+      throw new AuthError('INVALID_TOKEN', error instanceof Error ? error.message : 'Invalid token');
+    }
+
+    if (!payload.sub) {
+      throw new AuthError('INVALID_TOKEN', 'Token has no subject');
+    }
+
+    return {
+      id: payload.sub,
+      email: payload.email,
+      role: this.resolveRole(payload),
+      tier: this.resolveTier(payload)
+    };
+  }
+
+  private async resolveKey(header: jwt.JwtHeader): Promise<jwt.Secret | crypto.KeyObject> {
+    if (header.alg === 'HS256') {
+      if (!this.config.jwt_secret) {
+        throw new AuthError('INVALID_TOKEN', 'HS256 tokens are not accepted');
+      }
+      return this.config.jwt_secret;
+    }
+
+    if (!header.kid) {
+      throw new AuthError('INVALID_TOKEN', 'Token is missing a key id');
+    }
+
+    let jwk = (await this.getKeys()).find(k => k.kid === header.kid);
+    if (!jwk && this.config.jwks_url) {
+      // Signing keys may have rotated since the last fetch
+      jwk = (await this.getKeys(true)).find(k => k.kid === header.kid);
+    }
+    if (!jwk) {
+      throw new AuthError('INVALID_TOKEN', `Unknown signing key '${header.kid}'`);
+    }
+
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  }
+
+  private async getKeys(forceRefresh = false): Promise<JsonWebKeyWithId[]> {
+    if (this.config.jwks) {
+      return this.config.jwks.keys;
+    }
+    if (!this.config.jwks_url) {
+      return [];
+    }
+
+    const ttl = this.config.jwks_cache_ttl_ms ?? 10 * 60 * 1000;
+    if (this.jwksCache && Date.now() - this.jwksCache.fetched_at < ttl) {
+      const refreshInterval = this.config.jwks_refresh_interval_ms ?? 30 * 1000;
+      if (!forceRefresh || Date.now() - this.lastJwksFetchAt < refreshInterval) {
+        return this.jwksCache.keys;
+      }
+    }
+
+    // Concurrent requests share one fetch instead of each hitting the endpoint
+    if (!this.jwksFetch) {
+      this.jwksFetch = this.fetchKeys(this.config.jwks_url).finally(() => {
+        this.jwksFetch = null;
+      });
+    }
+    return this.jwksFetch;
+  }
+
+  private async fetchKeys(jwksUrl: string): Promise<JsonWebKeyWithId[]> {
+    this.lastJwksFetchAt = Date.now();
+    const response = await fetch(jwksUrl, {
+      signal: AbortSignal.timeout(this.config.jwks_fetch_timeout_ms ?? 5000)
+    });
+    if (!response.ok) {
+      throw new Error(`JWKS endpoint returned ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    this.jwksCache = { keys: Array.isArray(data.keys) ? data.keys : [], fetched_at: Date.now() };
+    return this.jwksCache.keys;
+  }
+
+  private resolveRole(payload: JwtPayload): string {
+    return payload.app_metadata?.role === 'admin' ? 'admin' : payload.role || 'authenticated';
+  }
+
+  private resolveTier(payload: JwtPayload): UserTier {
+    // app_metadata can only be written server-side, so it is the only trusted source
+    return payload.app_metadata?.tier === 'premium' ? 'premium' : 'free';
+  }
+}
+
+// Operators: users flagged admin in app_metadata. Service-role tokens have no subject and never get this far.
+export function isAdmin(user: AuthUser | undefined): boolean {
+  return !!user && user.role === 'admin';
+}
+
+export function loadAuthConfigFromEnv(): AuthConfig {
+  const supabaseUrl = (process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '').replace(/\/$/, '');
+
+  return {
+    jwt_secret: process.env.SUPABASE_JWT_SECRET,
+    jwks_url: process.env.SUPABASE_JWKS_URL || (supabaseUrl ? `${supabaseUrl}/auth/v1/.well-known/jwks.json` : undefined),
+    issuer: process.env.SUPABASE_JWT_ISSUER || (supabaseUrl ? `${supabaseUrl}/auth/v1` : undefined),
+    audience: process.env.SUPABASE_JWT_AUDIENCE || 'authenticated'
+  };
+}
+
+export const jwtVerifier = new SupabaseJwtVerifier(loadAuthConfigFromEnv());
+
+/**
+ * Express middleware that verifies the bearer token and attaches `req.user`.
+ * With `optional: true`, requests without a token pass through anonymously,
+ * but a present-and-invalid token is still rejected.
+ */
+export function createAuthMiddleware(options: { verifier?: SupabaseJwtVerifier; optional?: boolean } = {}) {
+  const verifier = options.verifier || jwtVerifier;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    const header = req.headers.authorization as string | undefined;
+    const token = header && /^Bearer\s+/i.test(header) ? header.replace(/^Bearer\s+/i, '').trim() : null;
+
+    if (!token) {
+      if (options.optional) {
+        next();
+        return;
+      }
+      sendAuthError(res, new AuthError('UNAUTHORIZED', 'Missing bearer token'), traceId);
+      return;
+    }
+
+    try {
+      req.user = await verifier.verify(token);
+      next();
+    } catch (error) {
+      sendAuthError(
+        res,
+        error instanceof AuthError ? error : new AuthError('INVALID_TOKEN', 'Unable to verify token'),
+        traceId
+      );
+    }
+  };
+}
+
+function sendAuthError(res: Response, error: AuthError, traceId: string): void {
+  res.status(401).json({
+    error: {
+      code: error.code,
+      message: error.message,
+      trace_id: traceId
+    }
+  });
+}
+
+export const authenticate = createAuthMiddleware();
+export const optionalAuthenticate = createAuthMiddleware({ optional: true });
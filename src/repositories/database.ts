@@ -0,0 +1,33 @@
+import { Pool } from 'pg';
+import { validate as validateUuid } from 'uuid';
+
+// Minimal query surface so a pg Pool, PoolClient or test double can be passed in
+export interface SqlClient {
+  query(text: string, params?: any[]): Promise<{ rows: any[]; rowCount?: number | null }>;
+}
+
+let pool: Pool | null = null;
+
+/**
+ * Shared connection pool, or null when no database is configured
+ * (local dev and tests fall back to in-memory repositories).
+ */
+export function getPool(): Pool | null {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+
+  if (!pool) {
+    pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    });
+  }
+
+  return pool;
+}
+
+// IDs that can't match a uuid column are treated as missing rows; Postgres would reject them with an error
+export function isUuid(value: string): boolean {
+  return validateUuid(value);
+}
@@ -0,0 +1,149 @@
+import { SqlClient, getPool } from './database';
+
+export type IdempotencyStatus = 'in_progress' | 'completed';
+
+export interface IdempotencyRecord {
+  scope: string; // operation the key belongs to, e.g. 'trip.create'
+  user_id: string;
+  idempotency_key: string;
+  request_fingerprint: string;
+  status: IdempotencyStatus;
+  response_status?: number;
+  response_body?: unknown;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface IdempotencyRepository {
+  /**
+   * Claims the key for a new request. Returns null when the claim succeeded,
+   * or the live record already holding the key. Expired records are reclaimed.
+   */
+  reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  complete(scope: string, userId: string, key: string, response: { status: number; body: unknown; expires_at: string }): Promise<void>;
+  release(scope: string, userId: string, key: string): Promise<void>;
+}
+
+export class InMemoryIdempotencyRepository implements IdempotencyRepository {
+  private records: Map<string, IdempotencyRecord> = new Map();
+
+  async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    const id = this.recordId(record.scope, record.user_id, record.idempotency_key);
+    const existing = this.records.get(id);
+
+    if (existing && existing.expires_at > new Date().toISOString()) {
+      return { ...existing };
+    }
+
+    this.records.set(id, { ...record });
+    return null;
+  }
+
+  async complete(scope: string, userId: string, key: string, response: { status: number; body: unknown; expires_at: string }): Promise<void> {
+    const id = this.recordId(scope, userId, key);
+    const existing = this.records.get(id);
+    if (!existing) return;
+
+    this.records.set(id, {
+      ...existing,
+      status: 'completed',
+      response_status: response.status,
+      response_body: response.body,
+      expires_at: response.expires_at
+    });
+  }
+
+  async release(scope: string, userId: string, key: string): Promise<void> {
+    this.records.delete(this.recordId(scope, userId, key));
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  private recordId(scope: string, userId: string, key: string): string {
+    return `${scope}:${userId}:${key}`;
+  }
+}
+
+export class PostgresIdempotencyRepository implements IdempotencyRepository {
+  constructor(private client: SqlClient) {}
+
+  async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    // Insert, or take over an expired row; a live row is left untouched and returns nothing
+    const claimed = await this.client.query(
+      `INSERT INTO idempotency_requests (
+         scope, user_id, idempotency_key, request_fingerprint, status, created_at, expires_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (scope, user_id, idempotency_key) DO UPDATE SET
+         request_fingerprint = EXCLUDED.request_fingerprint,
+         status = EXCLUDED.status,
+         response_status = NULL,
+         response_body = NULL,
+         created_at = EXCLUDED.created_at,
+         expires_at = EXCLUDED.expires_at
+       WHERE idempotency_requests.expires_at <= NOW()
+       RETURNING idempotency_key`,
+      [
+        record.scope,
+        record.user_id,
+        record.idempotency_key,
+        record.request_fingerprint,
+        record.status,
+        record.created_at,
+        record.expires_at
+      ]
+    );
+
+    if (claimed.rows.length > 0) {
+      return null;
+    }
+
+    const existing = await this.client.query(
+      `SELECT * FROM idempotency_requests
+       WHERE scope = $1 AND user_id = $2 AND idempotency_key = $3`,
+      [record.scope, record.user_id, record.idempotency_key]
+    );
+
+    return existing.rows.length > 0 ? this.mapRow(existing.rows[0]) : null;
+  }
+
+  async complete(scope: string, userId: string, key: string, response: { status: number; body: unknown; expires_at: string }): Promise<void> {
+    await this.client.query(
+      `UPDATE idempotency_requests
+       SET status = 'completed', response_status = $4, response_body = $5, expires_at = $6
+       WHERE scope = $1 AND user_id = $2 AND idempotency_key = $3`,
+      [scope, userId, key, response.status, JSON.stringify(response.body), response.expires_at]
+    );
+  }
+
+  async release(scope: string, userId: string, key: string): Promise<void> {
+    await this.client.query(
+      `DELETE FROM idempotency_requests
+       WHERE scope = $1 AND user_id = $2 AND idempotency_key = $3 AND status = 'in_progress'`,
+      [scope, userId, key]
+    );
+  }
+
+  private mapRow(row: any): IdempotencyRecord {
+    const toIsoString = (value: Date | string) => value instanceof Date ? value.toISOString() : value;
+    return {
+      scope: row.scope,
+      user_id: row.user_id,
+      idempotency_key: row.idempotency_key,
+      request_fingerprint: row.request_fingerprint,
+      status: row.status,
+      response_status: row.response_status ?? undefined,
+      response_body: row.response_body ?? undefined,
+      created_at: toIsoString(row.created_at),
+      expires_at: toIsoString(row.expires_at)
+    };
+  }
+}
+
+export function createIdempotencyRepository(): IdempotencyRepository {
+  const pool = getPool();
+  return pool ? new PostgresIdempotencyRepository(pool) : new InMemoryIdempotencyRepository();
+}
+
+export const idempotencyRepository = createIdempotencyRepository();
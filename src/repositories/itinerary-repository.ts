@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { OptimizedItinerary } from '../services/itinerary-optimizer';
+import { SqlClient, getPool, isUuid } from './database';
+
+export interface StoredItinerary extends OptimizedItinerary {
+  itinerary_id: string;
+  version: number;
+}
+
+export interface ItineraryRepository {
+  // Stores a new version; earlier versions are kept for history
+  save(itinerary: OptimizedItinerary): Promise<StoredItinerary>;
+  findLatestByTrip(tripId: string): Promise<StoredItinerary | null>;
+}
+
+export class InMemoryItineraryRepository implements ItineraryRepository {
+  private itineraries: Map<string, StoredItinerary[]> = new Map();
+
+  async save(itinerary: OptimizedItinerary): Promise<StoredItinerary> {
+    const versions = this.itineraries.get(itinerary.trip_id) || [];
+    const stored: StoredItinerary = {
+      ...itinerary,
+      itinerary_id: uuidv4(),
+      version: versions.length + 1
+    };
+
+    this.itineraries.set(itinerary.trip_id, [...versions, stored]);
+    return { ...stored };
+  }
+
+  async findLatestByTrip(tripId: string): Promise<StoredItinerary | null> {
+    const versions = this.itineraries.get(tripId) || [];
+    return versions.length > 0 ? { ...versions[versions.length - 1] } : null;
+  }
+}
+
+export class PostgresItineraryRepository implements ItineraryRepository {
+  constructor(private client: SqlClient) {}
+
+  async save(itinerary: OptimizedItinerary): Promise<StoredItinerary> {
+    const result = await this.client.query(
+      `INSERT INTO itineraries (
+         itinerary_id, trip_id, status, budget_status, total_cost, currency,
+         days, alternatives, optimization_metadata, generated_at, version
+       ) VALUES (
+         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
+         (SELECT COALESCE(MAX(version), 0) + 1 FROM itineraries WHERE trip_id = $2)
+       )
+       RETURNING *`,
+      [
+        uuidv4(),
+        itinerary.trip_id,
+        itinerary.status,
+        itinerary.budget_status,
+        itinerary.total_cost,
+        itinerary.currency,
+        JSON.stringify(itinerary.days),
+        JSON.stringify(itinerary.alternatives),
+        JSON.stringify(itinerary.optimization_metadata),
+        itinerary.generated_at
+      ]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  async findLatestByTrip(tripId: string): Promise<StoredItinerary | null> {
+    if (!isUuid(tripId)) return null;
+
+    const result = await this.client.query(
+      `SELECT * FROM itineraries WHERE trip_id = $1 ORDER BY version DESC LIMIT 1`,
+      [tripId]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  private mapRow(row: any): StoredItinerary {
+    return {
+      itinerary_id: row.itinerary_id,
+      trip_id: row.trip_id,
+      status: row.status,
+      budget_status: row.budget_status,
+      total_cost: parseFloat(row.total_cost),
+      currency: row.currency,
+      days: row.days || [],
+      alternatives: row.alternatives || [],
+      optimization_metadata: row.optimization_metadata,
+      generated_at: row.generated_at instanceof Date ? row.generated_at.toISOString() : row.generated_at,
+      version: row.version
+    };
+  }
+}
+
+export function createItineraryRepository(): ItineraryRepository {
+  const pool = getPool();
+  return pool ? new PostgresItineraryRepository(pool) : new InMemoryItineraryRepository();
+}
+
+export const itineraryRepository = createItineraryRepository();
@@ -0,0 +1,92 @@
+import type { LLMResponse } from '../services/llm-orchestrator';
+import { SqlClient, getPool } from './database';
+
+export interface LLMCacheEntry {
+  cache_key: string;
+  prompt_hash: string;
+  provider: string; // key of the provider that produced the response
+  response: LLMResponse;
+  expires_at: number; // epoch ms
+}
+
+export interface LLMCachePurgeFilter {
+  prompt_hash?: string;
+  provider?: string;
+}
+
+// Persistent, shared tier of the LLM response cache (the llm_cache table)
+export interface LLMCacheRepository {
+  get(cacheKey: string): Promise<LLMCacheEntry | null>;
+  set(entry: LLMCacheEntry): Promise<void>;
+  purge(filter: LLMCachePurgeFilter): Promise<number>;
+  deleteExpired(): Promise<number>;
+}
+
+export class PostgresLLMCacheRepository implements LLMCacheRepository {
+  constructor(private client: SqlClient) {}
+
+  async get(cacheKey: string): Promise<LLMCacheEntry | null> {
+    const result = await this.client.query(
+      'SELECT * FROM llm_cache WHERE cache_key = $1 AND expires_at > NOW()',
+      [cacheKey]
+    );
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    await this.client.query(
+      `INSERT INTO llm_cache (cache_key, prompt_hash, provider, response, cost, tokens_used, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (cache_key) DO UPDATE SET
+         prompt_hash = EXCLUDED.prompt_hash,
+         provider = EXCLUDED.provider,
+         response = EXCLUDED.response,
+         cost = EXCLUDED.cost,
+         tokens_used = EXCLUDED.tokens_used,
+         created_at = NOW(),
+         expires_at = EXCLUDED.expires_at`,
+      [
+        entry.cache_key,
+        entry.prompt_hash,
+        entry.provider,
+        JSON.stringify(entry.response),
+        entry.response.cost,
+        entry.response.tokens_used,
+        new Date(entry.expires_at).toISOString()
+      ]
+    );
+  }
+
+  async purge(filter: LLMCachePurgeFilter): Promise<number> {
+    const result = await this.client.query(
+      `DELETE FROM llm_cache
+       WHERE ($1::text IS NULL OR prompt_hash = $1)
+         AND ($2::text IS NULL OR provider = $2)`,
+      [filter.prompt_hash || null, filter.provider || null]
+    );
+    return result.rowCount || 0;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.client.query('DELETE FROM llm_cache WHERE expires_at <= NOW()');
+    return result.rowCount || 0;
+  }
+
+  private mapRow(row: any): LLMCacheEntry {
+    return {
+      cache_key: row.cache_key,
+      prompt_hash: row.prompt_hash,
+      provider: row.provider,
+      response: row.response,
+      expires_at: new Date(row.expires_at).getTime()
+    };
+  }
+}
+
+// Without a database there is no shared tier; the in-memory LRU works alone
+export function createLLMCacheRepository(): LLMCacheRepository | null {
+  const pool = getPool();
+  return pool ? new PostgresLLMCacheRepository(pool) : null;
+}
+
+export const llmCacheRepository = createLLMCacheRepository();
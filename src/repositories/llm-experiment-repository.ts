@@ -0,0 +1,323 @@
+import { SqlClient, getPool } from './database';
+
+export type ExperimentUnitType = 'user' | 'trip';
+
+export type ExperimentStatus = 'running' | 'paused' | 'concluded';
+
+export type OutcomeSignal = 'itinerary_accepted' | 'itinerary_edited' | 'booked';
+
+export interface ExperimentVariant {
+  variant_key: string;
+  weight: number; // relative share of units
+  provider?: string; // provider key
+  model?: string; // model name for `provider`
+  template?: string; // PROMPT_TEMPLATES key used instead of the route's template (runTask only)
+}
+
+export interface LLMExperiment {
+  experiment_key: string;
+  task: string; // PROMPT_ROUTING key the experiment applies to
+  unit: ExperimentUnitType; // every request for the same user (or trip) gets the same variant
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  description?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// One request served by a variant
+export interface ExperimentExposure {
+  exposure_id: string;
+  experiment_key: string;
+  variant_key: string;
+  unit_type: ExperimentUnitType;
+  unit_id: string;
+  provider: string; // key of the provider that answered, which a fallback may have changed
+  tokens_used: number;
+  cost: number;
+  trace_id?: string;
+  recorded_at: string;
+}
+
+export interface ExperimentOutcome {
+  outcome_id: string;
+  experiment_key: string;
+  variant_key: string;
+  unit_type: ExperimentUnitType;
+  unit_id: string;
+  signal: OutcomeSignal;
+  trace_id?: string;
+  recorded_at: string;
+}
+
+export interface ExperimentUnitIds {
+  user_id?: string;
+  trip_id?: string;
+}
+
+export interface VariantTotals {
+  variant_key: string;
+  exposures: number;
+  units: number;
+  cost: number;
+  signals: Partial<Record<OutcomeSignal, number>>; // units that sent each signal at least once
+}
+
+export interface LLMExperimentRepository {
+  saveExperiment(experiment: LLMExperiment): Promise<LLMExperiment>;
+  findExperiment(experimentKey: string): Promise<LLMExperiment | null>;
+  listExperiments(filter?: { task?: string; status?: ExperimentStatus }): Promise<LLMExperiment[]>;
+  recordExposure(exposure: ExperimentExposure): Promise<void>;
+  // The latest exposure per experiment for this user or trip
+  findLatestExposures(unit: ExperimentUnitIds): Promise<ExperimentExposure[]>;
+  recordOutcome(outcome: ExperimentOutcome): Promise<void>;
+  getVariantTotals(experimentKey: string): Promise<VariantTotals[]>;
+}
+
+function matchesUnit(record: { unit_type: ExperimentUnitType; unit_id: string }, unit: ExperimentUnitIds): boolean {
+  return record.unit_type === 'trip' ? record.unit_id === unit.trip_id : record.unit_id === unit.user_id;
+}
+
+export class InMemoryLLMExperimentRepository implements LLMExperimentRepository {
+  private experiments: Map<string, LLMExperiment> = new Map();
+  private exposures: ExperimentExposure[] = [];
+  private outcomes: ExperimentOutcome[] = [];
+
+  async saveExperiment(experiment: LLMExperiment): Promise<LLMExperiment> {
+    this.experiments.set(experiment.experiment_key, JSON.parse(JSON.stringify(experiment)));
+    return experiment;
+  }
+
+  async findExperiment(experimentKey: string): Promise<LLMExperiment | null> {
+    const experiment = this.experiments.get(experimentKey);
+    return experiment ? JSON.parse(JSON.stringify(experiment)) : null;
+  }
+
+  async listExperiments(filter: { task?: string; status?: ExperimentStatus } = {}): Promise<LLMExperiment[]> {
+    return Array.from(this.experiments.values())
+      .filter(experiment =>
+        (!filter.task || experiment.task === filter.task) &&
+        (!filter.status || experiment.status === filter.status)
+      )
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(experiment => JSON.parse(JSON.stringify(experiment)));
+  }
+
+  async recordExposure(exposure: ExperimentExposure): Promise<void> {
+    this.exposures.push({ ...exposure });
+  }
+
+  async findLatestExposures(unit: ExperimentUnitIds): Promise<ExperimentExposure[]> {
+    const latest: Map<string, ExperimentExposure> = new Map();
+    this.exposures
+      .filter(exposure => matchesUnit(exposure, unit))
+      .forEach(exposure => {
+        const current = latest.get(exposure.experiment_key);
+        if (!current || exposure.recorded_at >= current.recorded_at) {
+          latest.set(exposure.experiment_key, exposure);
+        }
+      });
+    return Array.from(latest.values()).map(exposure => ({ ...exposure }));
+  }
+
+  async recordOutcome(outcome: ExperimentOutcome): Promise<void> {
+    this.outcomes.push({ ...outcome });
+  }
+
+  async getVariantTotals(experimentKey: string): Promise<VariantTotals[]> {
+    const totals: Map<string, VariantTotals & { unitIds: string[] }> = new Map();
+    const totalsFor = (variantKey: string) => {
+      const current = totals.get(variantKey) || { variant_key: variantKey, exposures: 0, units: 0, cost: 0, signals: {}, unitIds: [] };
+      totals.set(variantKey, current);
+      return current;
+    };
+
+    this.exposures
+      .filter(exposure => exposure.experiment_key === experimentKey)
+      .forEach(exposure => {
+        const variant = totalsFor(exposure.variant_key);
+        variant.exposures++;
+        variant.cost += exposure.cost;
+        if (!variant.unitIds.includes(exposure.unit_id)) variant.unitIds.push(exposure.unit_id);
+      });
+
+    const signalled: string[] = [];
+    this.outcomes
+      .filter(outcome => outcome.experiment_key === experimentKey)
+      .forEach(outcome => {
+        const key = JSON.stringify([outcome.variant_key, outcome.signal, outcome.unit_id]);
+        if (signalled.includes(key)) return;
+        signalled.push(key);
+        const variant = totalsFor(outcome.variant_key);
+        variant.signals[outcome.signal] = (variant.signals[outcome.signal] || 0) + 1;
+      });
+
+    return Array.from(totals.values()).map(({ unitIds, ...variant }) => ({ ...variant, units: unitIds.length }));
+  }
+
+  clear(): void {
+    this.experiments.clear();
+    this.exposures = [];
+    this.outcomes = [];
+  }
+}
+
+export class PostgresLLMExperimentRepository implements LLMExperimentRepository {
+  constructor(private client: SqlClient) {}
+
+  async saveExperiment(experiment: LLMExperiment): Promise<LLMExperiment> {
+    await this.client.query(
+      `INSERT INTO llm_experiments (experiment_key, task, unit, status, variants, description, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (experiment_key) DO UPDATE SET
+         task = EXCLUDED.task,
+         unit = EXCLUDED.unit,
+         status = EXCLUDED.status,
+         variants = EXCLUDED.variants,
+         description = EXCLUDED.description,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        experiment.experiment_key,
+        experiment.task,
+        experiment.unit,
+        experiment.status,
+        JSON.stringify(experiment.variants),
+        experiment.description || null,
+        experiment.created_at,
+        experiment.updated_at
+      ]
+    );
+    return experiment;
+  }
+
+  async findExperiment(experimentKey: string): Promise<LLMExperiment | null> {
+    const result = await this.client.query('SELECT * FROM llm_experiments WHERE experiment_key = $1', [experimentKey]);
+    return result.rows.length > 0 ? this.mapExperiment(result.rows[0]) : null;
+  }
+
+  async listExperiments(filter: { task?: string; status?: ExperimentStatus } = {}): Promise<LLMExperiment[]> {
+    const result = await this.client.query(
+      `SELECT * FROM llm_experiments
+       WHERE ($1::text IS NULL OR task = $1)
+         AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at`,
+      [filter.task || null, filter.status || null]
+    );
+    return result.rows.map(row => this.mapExperiment(row));
+  }
+
+  async recordExposure(exposure: ExperimentExposure): Promise<void> {
+    await this.client.query(
+      `INSERT INTO llm_experiment_exposures
+         (exposure_id, experiment_key, variant_key, unit_type, unit_id, provider, tokens_used, cost, trace_id, recorded_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        exposure.exposure_id,
+        exposure.experiment_key,
+        exposure.variant_key,
+        exposure.unit_type,
+        exposure.unit_id,
+        exposure.provider,
+        exposure.tokens_used,
+        exposure.cost,
+        exposure.trace_id || null,
+        exposure.recorded_at
+      ]
+    );
+  }
+
+  async findLatestExposures(unit: ExperimentUnitIds): Promise<ExperimentExposure[]> {
+    const result = await this.client.query(
+      `SELECT DISTINCT ON (experiment_key) *
+       FROM llm_experiment_exposures
+       WHERE (unit_type = 'user' AND unit_id = $1) OR (unit_type = 'trip' AND unit_id = $2)
+       ORDER BY experiment_key, recorded_at DESC`,
+      [unit.user_id || null, unit.trip_id || null]
+    );
+    return result.rows.map(row => ({
+      exposure_id: row.exposure_id,
+      experiment_key: row.experiment_key,
+      variant_key: row.variant_key,
+      unit_type: row.unit_type,
+      unit_id: row.unit_id,
+      provider: row.provider,
+      tokens_used: row.tokens_used,
+      cost: parseFloat(row.cost),
+      trace_id: row.trace_id || undefined,
+      recorded_at: new Date(row.recorded_at).toISOString()
+    }));
+  }
+
+  async recordOutcome(outcome: ExperimentOutcome): Promise<void> {
+    await this.client.query(
+      `INSERT INTO llm_experiment_outcomes
+         (outcome_id, experiment_key, variant_key, unit_type, unit_id, signal, trace_id, recorded_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        outcome.outcome_id,
+        outcome.experiment_key,
+        outcome.variant_key,
+        outcome.unit_type,
+        outcome.unit_id,
+        outcome.signal,
+        outcome.trace_id || null,
+        outcome.recorded_at
+      ]
+    );
+  }
+
+  async getVariantTotals(experimentKey: string): Promise<VariantTotals[]> {
+    const exposures = await this.client.query(
+      `SELECT variant_key, COUNT(*) AS exposures, COUNT(DISTINCT unit_id) AS units, COALESCE(SUM(cost), 0) AS cost
+       FROM llm_experiment_exposures
+       WHERE experiment_key = $1
+       GROUP BY variant_key`,
+      [experimentKey]
+    );
+    const outcomes = await this.client.query(
+      `SELECT variant_key, signal, COUNT(DISTINCT unit_id) AS units
+       FROM llm_experiment_outcomes
+       WHERE experiment_key = $1
+       GROUP BY variant_key, signal`,
+      [experimentKey]
+    );
+
+    // pg returns COUNT/SUM as strings
+    const totals: Map<string, VariantTotals> = new Map();
+    exposures.rows.forEach(row => {
+      totals.set(row.variant_key, {
+        variant_key: row.variant_key,
+        exposures: parseInt(row.exposures, 10),
+        units: parseInt(row.units, 10),
+        cost: parseFloat(row.cost),
+        signals: {}
+      });
+    });
+    outcomes.rows.forEach(row => {
+      const variant: VariantTotals = totals.get(row.variant_key) || { variant_key: row.variant_key, exposures: 0, units: 0, cost: 0, signals: {} };
+      variant.signals[row.signal as OutcomeSignal] = parseInt(row.units, 10);
+      totals.set(row.variant_key, variant);
+    });
+    return Array.from(totals.values());
+  }
+
+  private mapExperiment(row: any): LLMExperiment {
+    return {
+      experiment_key: row.experiment_key,
+      task: row.task,
+      unit: row.unit,
+      status: row.status,
+      variants: row.variants || [],
+      description: row.description || undefined,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString()
+    };
+  }
+}
+
+export function createLLMExperimentRepository(): LLMExperimentRepository {
+  const pool = getPool();
+  return pool ? new PostgresLLMExperimentRepository(pool) : new InMemoryLLMExperimentRepository();
+}
+
+export const llmExperimentRepository = createLLMExperimentRepository();
@@ -0,0 +1,159 @@
+import { SqlClient, getPool } from './database';
+
+export interface LLMUsageRecord {
+  usage_id: string;
+  user_id?: string;
+  task?: string; // PROMPT_ROUTING key
+  provider: string; // provider key
+  tokens_used: number;
+  cost: number;
+  recorded_at: string;
+}
+
+export type UsageDimension = 'provider' | 'task' | 'user_id';
+
+export interface UsageTotals {
+  requests: number;
+  tokens_used: number;
+  cost: number;
+}
+
+export interface UsageFilter {
+  from: string; // inclusive, ISO timestamp
+  to: string; // exclusive, ISO timestamp
+  user_id?: string;
+  task?: string;
+  provider?: string;
+}
+
+export type UsageBreakdownRow = UsageTotals & Partial<Record<UsageDimension, string | null>>;
+
+export interface LLMUsageRepository {
+  record(usage: LLMUsageRecord): Promise<void>;
+  getTotals(filter: UsageFilter): Promise<UsageTotals>;
+  getBreakdown(filter: UsageFilter, groupBy: UsageDimension[]): Promise<UsageBreakdownRow[]>;
+}
+
+export class InMemoryLLMUsageRepository implements LLMUsageRepository {
+  private records: LLMUsageRecord[] = [];
+
+  async record(usage: LLMUsageRecord): Promise<void> {
+    this.records.push({ ...usage });
+  }
+
+  async getTotals(filter: UsageFilter): Promise<UsageTotals> {
+    return this.sum(this.filter(filter));
+  }
+
+  async getBreakdown(filter: UsageFilter, groupBy: UsageDimension[]): Promise<UsageBreakdownRow[]> {
+    const groups: Map<string, LLMUsageRecord[]> = new Map();
+
+    for (const record of this.filter(filter)) {
+      const key = JSON.stringify(groupBy.map(dimension => record[dimension] ?? null));
+      const group = groups.get(key) || [];
+      group.push(record);
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values())
+      .map(records => {
+        const row: UsageBreakdownRow = this.sum(records);
+        groupBy.forEach(dimension => {
+          row[dimension] = records[0][dimension] ?? null;
+        });
+        return row;
+      })
+      .sort((a, b) => b.cost - a.cost);
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+
+  private filter(filter: UsageFilter): LLMUsageRecord[] {
+    return this.records.filter(record =>
+      record.recorded_at >= filter.from &&
+      record.recorded_at < filter.to &&
+      (!filter.user_id || record.user_id === filter.user_id) &&
+      (!filter.task || record.task === filter.task) &&
+      (!filter.provider || record.provider === filter.provider)
+    );
+  }
+
+  private sum(records: LLMUsageRecord[]): UsageTotals {
+    return records.reduce(
+      (totals, record) => ({
+        requests: totals.requests + 1,
+        tokens_used: totals.tokens_used + record.tokens_used,
+        cost: totals.cost + record.cost
+      }),
+      { requests: 0, tokens_used: 0, cost: 0 }
+    );
+  }
+}
+
+export class PostgresLLMUsageRepository implements LLMUsageRepository {
+  // Dimension names are interpolated into GROUP BY, so only these may be used
+  private static readonly DIMENSIONS: UsageDimension[] = ['provider', 'task', 'user_id'];
+
+  constructor(private client: SqlClient) {}
+
+  async record(usage: LLMUsageRecord): Promise<void> {
+    await this.client.query(
+      `INSERT INTO llm_usage (usage_id, user_id, task, provider, tokens_used, cost, recorded_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        usage.usage_id,
+        usage.user_id || null,
+        usage.task || null,
+        usage.provider,
+        usage.tokens_used,
+        usage.cost,
+        usage.recorded_at
+      ]
+    );
+  }
+
+  async getTotals(filter: UsageFilter): Promise<UsageTotals> {
+    const [row] = await this.getBreakdown(filter, []);
+    return row ? { requests: row.requests, tokens_used: row.tokens_used, cost: row.cost } : { requests: 0, tokens_used: 0, cost: 0 };
+  }
+
+  async getBreakdown(filter: UsageFilter, groupBy: UsageDimension[]): Promise<UsageBreakdownRow[]> {
+    const columns = groupBy.filter(dimension => PostgresLLMUsageRepository.DIMENSIONS.includes(dimension));
+    const select = columns.length > 0 ? `${columns.join(', ')}, ` : '';
+    const group = columns.length > 0 ? `GROUP BY ${columns.join(', ')}` : '';
+
+    const result = await this.client.query(
+      `SELECT ${select}COUNT(*) AS requests, COALESCE(SUM(tokens_used), 0) AS tokens_used, COALESCE(SUM(cost), 0) AS cost
+       FROM llm_usage
+       WHERE recorded_at >= $1 AND recorded_at < $2
+         AND ($3::uuid IS NULL OR user_id = $3)
+         AND ($4::text IS NULL OR task = $4)
+         AND ($5::text IS NULL OR provider = $5)
+       ${group}
+       ORDER BY cost DESC`,
+      [filter.from, filter.to, filter.user_id || null, filter.task || null, filter.provider || null]
+    );
+
+    // pg returns COUNT/SUM as strings
+    return result.rows.map(row => {
+      const mapped: UsageBreakdownRow = {
+        requests: parseInt(row.requests, 10),
+        tokens_used: parseInt(row.tokens_used, 10),
+        cost: parseFloat(row.cost)
+      };
+      columns.forEach(dimension => {
+        mapped[dimension] = row[dimension] ?? null;
+      });
+      return mapped;
+    });
+  }
+}
+
+export function createLLMUsageRepository(): LLMUsageRepository {
+  const pool = getPool();
+  return pool ? new PostgresLLMUsageRepository(pool) : new InMemoryLLMUsageRepository();
+}
+
+export const llmUsageRepository = createLLMUsageRepository();
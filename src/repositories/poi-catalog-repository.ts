@@ -0,0 +1,146 @@
+import { SqlClient, getPool } from './database';
+import { ACTIVITY_CATALOG, Activity } from '../services/itinerary-optimizer';
+
+export interface OpeningHours {
+  open: string; // HH:MM, local time
+  close: string;
+}
+
+export interface CatalogEntry {
+  entity_id: string;
+  kind: 'poi' | 'event';
+  name: string;
+  aliases: string[]; // other names the place goes by, e.g. the beach an activity is on
+  category?: string;
+  address?: string;
+  price_range?: { min: number; max: number; currency: string };
+  opening_hours?: OpeningHours;
+  start_date?: string; // events only, ISO timestamp
+  end_date?: string;
+}
+
+// Known places and events that LLM output is fact-checked against
+export interface PoiCatalogRepository {
+  listEntries(): Promise<CatalogEntry[]>;
+}
+
+/**
+ * Offline catalog built from the optimizer's activity catalog. Time slots stand
+ * in for opening hours: first slot to the end of the last one.
+ */
+export class InMemoryPoiCatalogRepository implements PoiCatalogRepository {
+  private entries: CatalogEntry[];
+
+  constructor(activities: Activity[] = ACTIVITY_CATALOG) {
+    this.entries = activities.map(activity => this.fromActivity(activity));
+  }
+
+  async listEntries(): Promise<CatalogEntry[]> {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  add(entry: CatalogEntry): void {
+    this.entries.push({ ...entry });
+  }
+
+  private fromActivity(activity: Activity): CatalogEntry {
+    const place = activity.location.address.split(',')[0].trim();
+    const slots = activity.time_slots.slice().sort();
+    const [lastHour, lastMinute] = (slots[slots.length - 1] || '00:00').split(':').map(Number);
+    const closesAt = Math.min(lastHour * 60 + lastMinute + activity.duration, 23 * 60 + 59);
+
+    return {
+      entity_id: activity.location.poi_id || activity.activity_id,
+      kind: 'poi',
+      name: activity.title,
+      aliases: place && place !== activity.title ? [place] : [],
+      category: activity.category,
+      address: activity.location.address,
+      price_range: { min: activity.cost_per_person, max: activity.cost_per_person, currency: 'INR' },
+      opening_hours: slots.length > 0 ? { open: slots[0], close: this.formatTime(closesAt) } : undefined
+    };
+  }
+
+  private formatTime(minutes: number): string {
+    const pad = (value: number) => (value < 10 ? '0' : '') + value;
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+  }
+}
+
+export class PostgresPoiCatalogRepository implements PoiCatalogRepository {
+  // Past events are no longer worth checking claims against
+  private static readonly EVENT_LOOKBACK_DAYS = 30;
+
+  constructor(private client: SqlClient) {}
+
+  async listEntries(): Promise<CatalogEntry[]> {
+    const [pois, events] = await Promise.all([
+      this.client.query('SELECT poi_id, name, category, address, opening_hours, price_range FROM pois'),
+      this.client.query(
+        `SELECT event_id, title, category, address, price_range, start_date, end_date
+         FROM events
+         WHERE COALESCE(end_date, start_date) >= NOW() - ($1 || ' days')::interval`,
+        [PostgresPoiCatalogRepository.EVENT_LOOKBACK_DAYS]
+      )
+    ]);
+
+    return pois.rows.map(row => this.mapPoiRow(row)).concat(events.rows.map(row => this.mapEventRow(row)));
+  }
+
+  private mapPoiRow(row: any): CatalogEntry {
+    return {
+      entity_id: row.poi_id,
+      kind: 'poi',
+      name: row.name,
+      aliases: [],
+      category: row.category || undefined,
+      address: row.address || undefined,
+      price_range: this.mapPriceRange(row.price_range),
+      opening_hours: this.mapOpeningHours(row.opening_hours)
+    };
+  }
+
+  private mapEventRow(row: any): CatalogEntry {
+    return {
+      entity_id: row.event_id,
+      kind: 'event',
+      name: row.title,
+      aliases: [],
+      category: row.category || undefined,
+      address: row.address || undefined,
+      price_range: this.mapPriceRange(row.price_range),
+      start_date: new Date(row.start_date).toISOString(),
+      end_date: row.end_date ? new Date(row.end_date).toISOString() : undefined
+    };
+  }
+
+  private mapPriceRange(value: any): CatalogEntry['price_range'] {
+    if (!value || typeof value.min !== 'number') return undefined;
+    return { min: value.min, max: typeof value.max === 'number' ? value.max : value.min, currency: value.currency || 'INR' };
+  }
+
+  // Accepts {open, close} or per-day {monday: {open, close}, ...}; per-day hours collapse to the widest window
+  private mapOpeningHours(value: any): OpeningHours | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    if (typeof value.open === 'string' && typeof value.close === 'string') {
+      return { open: value.open, close: value.close };
+    }
+
+    const days = Object.keys(value)
+      .map(day => value[day])
+      .filter(hours => hours && typeof hours.open === 'string' && typeof hours.close === 'string');
+    if (days.length === 0) return undefined;
+
+    return {
+      open: days.map(hours => hours.open).sort()[0],
+      close: days.map(hours => hours.close).sort()[days.length - 1]
+    };
+  }
+}
+
+export function createPoiCatalogRepository(): PoiCatalogRepository {
+  const pool = getPool();
+  return pool ? new PostgresPoiCatalogRepository(pool) : new InMemoryPoiCatalogRepository();
+}
+
+export const poiCatalogRepository = createPoiCatalogRepository();
@@ -0,0 +1,319 @@
+import { SqlClient, getPool, isUuid } from './database';
+import type { Trip, TripStatus } from '../services/trip-service';
+import type { TripStatusTransition } from '../services/trip-lifecycle';
+
+export interface ListTripsOptions {
+  limit?: number;
+  offset?: number;
+  include_deleted?: boolean;
+}
+
+// Fields that can be changed outside the lifecycle; status changes go through updateStatus
+export type TripUpdate = Partial<Pick<
+  Trip,
+  | 'legs'
+  | 'dates'
+  | 'party_composition'
+  | 'budget_per_person'
+  | 'preferences'
+  | 'follow_up_questions'
+  | 'answers'
+  | 'members'
+  | 'share_links'
+  | 'activity_votes'
+>>;
+
+export interface TripUpdateOptions {
+  // Only update when the stored trip is still at this version (optimistic concurrency)
+  expected_version?: number;
+}
+
+export interface TripRepository {
+  create(trip: Trip): Promise<Trip>;
+  findById(tripId: string, options?: { include_deleted?: boolean }): Promise<Trip | null>;
+  // Trips the user owns or is an active member of
+  listByUser(userId: string, options?: ListTripsOptions): Promise<Trip[]>;
+  // The same trips as listByUser, before limit and offset
+  countByUser(userId: string, options?: Pick<ListTripsOptions, 'include_deleted'>): Promise<number>;
+  // Every update bumps the trip's version; a stale expected_version leaves the trip untouched and returns null
+  update(tripId: string, changes: TripUpdate, options?: TripUpdateOptions): Promise<Trip | null>;
+  /**
+   * Moves a trip to a new status. When a transition is given the update only applies
+   * if the trip is still in `transition.from`, and the transition is appended to the
+   * trip's status history.
+   */
+  updateStatus(tripId: string, status: TripStatus, transition?: TripStatusTransition): Promise<Trip | null>;
+  softDelete(tripId: string): Promise<boolean>;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+
+export class InMemoryTripRepository implements TripRepository {
+  private trips: Map<string, Trip> = new Map();
+
+  async create(trip: Trip): Promise<Trip> {
+    if (this.trips.has(trip.trip_id)) {
+      throw new Error(`Trip '${trip.trip_id}' already exists`);
+    }
+
+    const created: Trip = { ...trip, version: trip.version || 0 };
+    this.trips.set(trip.trip_id, created);
+    return { ...created };
+  }
+
+  async findById(tripId: string, options: { include_deleted?: boolean } = {}): Promise<Trip | null> {
+    const trip = this.trips.get(tripId);
+    if (!trip || (trip.deleted_at && !options.include_deleted)) {
+      return null;
+    }
+    return { ...trip };
+  }
+
+  async listByUser(userId: string, options: ListTripsOptions = {}): Promise<Trip[]> {
+    const offset = options.offset || 0;
+    const limit = options.limit || DEFAULT_LIST_LIMIT;
+
+    return this.findByUser(userId, options)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(offset, offset + limit)
+      .map(trip => ({ ...trip }));
+  }
+
+  async countByUser(userId: string, options: Pick<ListTripsOptions, 'include_deleted'> = {}): Promise<number> {
+    return this.findByUser(userId, options).length;
+  }
+
+  async update(tripId: string, changes: TripUpdate, options: TripUpdateOptions = {}): Promise<Trip | null> {
+    const trip = this.trips.get(tripId);
+    const version = trip ? trip.version || 0 : 0;
+    if (!trip || trip.deleted_at || (options.expected_version !== undefined && version !== options.expected_version)) {
+      return null;
+    }
+
+    const updated: Trip = { ...trip, ...changes, version: version + 1, updated_at: new Date().toISOString() };
+    this.trips.set(tripId, updated);
+    return { ...updated };
+  }
+
+  async updateStatus(tripId: string, status: TripStatus, transition?: TripStatusTransition): Promise<Trip | null> {
+    const trip = this.trips.get(tripId);
+    if (!trip || trip.deleted_at || (transition && trip.status !== transition.from)) {
+      return null;
+    }
+
+    const updated: Trip = {
+      ...trip,
+      status,
+      status_history: transition ? [...(trip.status_history || []), transition] : trip.status_history,
+      version: (trip.version || 0) + 1,
+      updated_at: new Date().toISOString()
+    };
+    this.trips.set(tripId, updated);
+    return { ...updated };
+  }
+
+  async softDelete(tripId: string): Promise<boolean> {
+    const trip = this.trips.get(tripId);
+    if (!trip || trip.deleted_at) {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    this.trips.set(tripId, { ...trip, deleted_at: now, updated_at: now });
+    return true;
+  }
+
+  clear(): void {
+    this.trips.clear();
+  }
+
+  private findByUser(userId: string, options: Pick<ListTripsOptions, 'include_deleted'>): Trip[] {
+    return Array.from(this.trips.values())
+      .filter(trip => trip.user_id === userId ||
+        (trip.members || []).some(member => member.status === 'active' && member.user_id === userId))
+      .filter(trip => options.include_deleted || !trip.deleted_at);
+  }
+}
+
+export class PostgresTripRepository implements TripRepository {
+  private static readonly COLUMNS = `
+    trip_id, user_id, destination, message, status, legs, dates, party_composition,
+    budget_per_person, preferences, follow_up_questions, answers, status_history,
+    members, share_links, activity_votes, origin, version, created_at, updated_at, deleted_at
+  `;
+
+  // Trips owned by $1 or with $1 as an active member; $2 includes soft-deleted ones
+  private static readonly USER_TRIPS_FILTER = `
+    (user_id = $1 OR members @> jsonb_build_array(jsonb_build_object('user_id', $1::text, 'status', 'active')))
+    AND ($2::boolean OR deleted_at IS NULL)
+  `;
+
+  private static readonly UPDATABLE_COLUMNS: Array<keyof TripUpdate> = [
+    'legs', 'dates', 'party_composition', 'budget_per_person', 'preferences', 'follow_up_questions', 'answers',
+    'members', 'share_links', 'activity_votes'
+  ];
+
+  constructor(private client: SqlClient) {}
+
+  async create(trip: Trip): Promise<Trip> {
+    const result = await this.client.query(
+      `INSERT INTO trips (
+         trip_id, user_id, destination, message, status, legs, dates, party_composition,
+         budget_per_person, preferences, follow_up_questions, status_history, origin, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       RETURNING ${PostgresTripRepository.COLUMNS}`,
+      [
+        trip.trip_id,
+        trip.user_id || null,
+        trip.destination,
+        trip.message || '',
+        trip.status,
+        trip.legs ? JSON.stringify(trip.legs) : null,
+        trip.dates ? JSON.stringify(trip.dates) : null,
+        trip.party_composition ? JSON.stringify(trip.party_composition) : null,
+        trip.budget_per_person ?? null,
+        JSON.stringify(trip.preferences || []),
+        JSON.stringify(trip.follow_up_questions || []),
+        JSON.stringify(trip.status_history || []),
+        trip.origin ? JSON.stringify(trip.origin) : null,
+        trip.created_at,
+        trip.updated_at
+      ]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  async findById(tripId: string, options: { include_deleted?: boolean } = {}): Promise<Trip | null> {
+    if (!isUuid(tripId)) return null;
+
+    const result = await this.client.query(
+      `SELECT ${PostgresTripRepository.COLUMNS} FROM trips
+       WHERE trip_id = $1 AND ($2::boolean OR deleted_at IS NULL)`,
+      [tripId, !!options.include_deleted]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async listByUser(userId: string, options: ListTripsOptions = {}): Promise<Trip[]> {
+    const result = await this.client.query(
+      `SELECT ${PostgresTripRepository.COLUMNS} FROM trips
+       WHERE ${PostgresTripRepository.USER_TRIPS_FILTER}
+       ORDER BY created_at DESC
+       LIMIT $3 OFFSET $4`,
+      [userId, !!options.include_deleted, options.limit || DEFAULT_LIST_LIMIT, options.offset || 0]
+    );
+
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async countByUser(userId: string, options: Pick<ListTripsOptions, 'include_deleted'> = {}): Promise<number> {
+    const result = await this.client.query(
+      `SELECT COUNT(*) AS total FROM trips WHERE ${PostgresTripRepository.USER_TRIPS_FILTER}`,
+      [userId, !!options.include_deleted]
+    );
+
+    return parseInt(result.rows[0].total, 10);
+  }
+
+  async update(tripId: string, changes: TripUpdate, options: TripUpdateOptions = {}): Promise<Trip | null> {
+    if (!isUuid(tripId)) return null;
+
+    const assignments: string[] = [];
+    const values: any[] = [tripId];
+
+    for (const column of PostgresTripRepository.UPDATABLE_COLUMNS) {
+      const value = changes[column];
+      if (value === undefined) continue;
+      values.push(column === 'budget_per_person' ? value : JSON.stringify(value));
+      assignments.push(`${column} = $${values.length}`);
+    }
+
+    if (assignments.length === 0 && options.expected_version === undefined) {
+      return this.findById(tripId);
+    }
+
+    values.push(options.expected_version ?? null);
+    const result = await this.client.query(
+      `UPDATE trips SET ${assignments.concat('version = version + 1').join(', ')}, updated_at = NOW()
+       WHERE trip_id = $1 AND deleted_at IS NULL
+         AND ($${values.length}::integer IS NULL OR version = $${values.length}::integer)
+       RETURNING ${PostgresTripRepository.COLUMNS}`,
+      values
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async updateStatus(tripId: string, status: TripStatus, transition?: TripStatusTransition): Promise<Trip | null> {
+    if (!isUuid(tripId)) return null;
+
+    const result = await this.client.query(
+      `UPDATE trips
+       SET status = $2,
+           status_history = CASE WHEN $3::jsonb IS NULL THEN status_history
+                                 ELSE status_history || jsonb_build_array($3::jsonb) END,
+           version = version + 1,
+           updated_at = NOW()
+       WHERE trip_id = $1 AND deleted_at IS NULL
+         AND ($4::trip_status IS NULL OR status = $4::trip_status)
+       RETURNING ${PostgresTripRepository.COLUMNS}`,
+      [tripId, status, transition ? JSON.stringify(transition) : null, transition ? transition.from : null]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async softDelete(tripId: string): Promise<boolean> {
+    if (!isUuid(tripId)) return false;
+
+    const result = await this.client.query(
+      `UPDATE trips SET deleted_at = NOW(), updated_at = NOW()
+       WHERE trip_id = $1 AND deleted_at IS NULL`,
+      [tripId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  private mapRow(row: any): Trip {
+    return {
+      trip_id: row.trip_id,
+      user_id: row.user_id || undefined,
+      status: row.status,
+      destination: row.destination,
+      message: row.message,
+      legs: row.legs || undefined,
+      dates: row.dates || undefined,
+      party_composition: row.party_composition || undefined,
+      // pg returns DECIMAL columns as strings
+      budget_per_person: row.budget_per_person !== null && row.budget_per_person !== undefined
+        ? parseFloat(row.budget_per_person)
+        : undefined,
+      preferences: row.preferences || [],
+      follow_up_questions: row.follow_up_questions || [],
+      answers: row.answers || [],
+      status_history: row.status_history || [],
+      members: row.members || [],
+      share_links: row.share_links || [],
+      activity_votes: row.activity_votes || [],
+      origin: row.origin || undefined,
+      version: row.version,
+      created_at: this.toIsoString(row.created_at),
+      updated_at: this.toIsoString(row.updated_at),
+      deleted_at: row.deleted_at ? this.toIsoString(row.deleted_at) : undefined
+    };
+  }
+
+  private toIsoString(value: Date | string): string {
+    return value instanceof Date ? value.toISOString() : value;
+  }
+}
+
+export function createTripRepository(): TripRepository {
+  const pool = getPool();
+  return pool ? new PostgresTripRepository(pool) : new InMemoryTripRepository();
+}
+
+export const tripRepository = createTripRepository();
@@ -0,0 +1,154 @@
+import type { TripTemplate } from '../services/trip-cloning';
+import { SqlClient, getPool, isUuid } from './database';
+
+export interface ListTemplatesOptions {
+  destination?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TripTemplateRepository {
+  create(template: TripTemplate): Promise<TripTemplate>;
+  findById(templateId: string): Promise<TripTemplate | null>;
+  list(options?: ListTemplatesOptions): Promise<TripTemplate[]>;
+  count(options?: Pick<ListTemplatesOptions, 'destination'>): Promise<number>;
+  incrementUsage(templateId: string): Promise<void>;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+
+export class InMemoryTripTemplateRepository implements TripTemplateRepository {
+  private templates: Map<string, TripTemplate> = new Map();
+
+  async create(template: TripTemplate): Promise<TripTemplate> {
+    this.templates.set(template.template_id, { ...template });
+    return { ...template };
+  }
+
+  async findById(templateId: string): Promise<TripTemplate | null> {
+    const template = this.templates.get(templateId);
+    return template ? { ...template } : null;
+  }
+
+  async list(options: ListTemplatesOptions = {}): Promise<TripTemplate[]> {
+    const offset = options.offset || 0;
+    const limit = options.limit || DEFAULT_LIST_LIMIT;
+
+    return this.findByDestination(options.destination)
+      .sort((a, b) => b.times_used - a.times_used || b.published_at.localeCompare(a.published_at))
+      .slice(offset, offset + limit)
+      .map(template => ({ ...template }));
+  }
+
+  async count(options: Pick<ListTemplatesOptions, 'destination'> = {}): Promise<number> {
+    return this.findByDestination(options.destination).length;
+  }
+
+  async incrementUsage(templateId: string): Promise<void> {
+    const template = this.templates.get(templateId);
+    if (template) {
+      this.templates.set(templateId, { ...template, times_used: template.times_used + 1 });
+    }
+  }
+
+  private findByDestination(destination?: string): TripTemplate[] {
+    const wanted = destination?.toLowerCase();
+    return Array.from(this.templates.values())
+      .filter(template => !wanted || template.destination.toLowerCase() === wanted);
+  }
+}
+
+export class PostgresTripTemplateRepository implements TripTemplateRepository {
+  private static readonly DESTINATION_FILTER = '($1::text IS NULL OR LOWER(destination) = LOWER($1))';
+
+  constructor(private client: SqlClient) {}
+
+  async create(template: TripTemplate): Promise<TripTemplate> {
+    const result = await this.client.query(
+      `INSERT INTO trip_templates (
+         template_id, title, description, destination, duration_days, party_type, budget_band,
+         preferences, days, published_by, source_trip_id, published_at, times_used
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING *`,
+      [
+        template.template_id,
+        template.title,
+        template.description || null,
+        template.destination,
+        template.duration_days,
+        template.party_type,
+        template.budget_band,
+        JSON.stringify(template.preferences),
+        JSON.stringify(template.days),
+        template.published_by,
+        template.source_trip_id,
+        template.published_at,
+        template.times_used
+      ]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  async findById(templateId: string): Promise<TripTemplate | null> {
+    if (!isUuid(templateId)) return null;
+
+    const result = await this.client.query('SELECT * FROM trip_templates WHERE template_id = $1', [templateId]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async list(options: ListTemplatesOptions = {}): Promise<TripTemplate[]> {
+    const result = await this.client.query(
+      `SELECT * FROM trip_templates
+       WHERE ${PostgresTripTemplateRepository.DESTINATION_FILTER}
+       ORDER BY times_used DESC, published_at DESC
+       LIMIT $2 OFFSET $3`,
+      [options.destination || null, options.limit || DEFAULT_LIST_LIMIT, options.offset || 0]
+    );
+
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async count(options: Pick<ListTemplatesOptions, 'destination'> = {}): Promise<number> {
+    const result = await this.client.query(
+      `SELECT COUNT(*) AS total FROM trip_templates WHERE ${PostgresTripTemplateRepository.DESTINATION_FILTER}`,
+      [options.destination || null]
+    );
+
+    return parseInt(result.rows[0].total, 10);
+  }
+
+  async incrementUsage(templateId: string): Promise<void> {
+    if (!isUuid(templateId)) return;
+
+    await this.client.query(
+      'UPDATE trip_templates SET times_used = times_used + 1 WHERE template_id = $1',
+      [templateId]
+    );
+  }
+
+  private mapRow(row: any): TripTemplate {
+    return {
+      template_id: row.template_id,
+      title: row.title,
+      description: row.description || undefined,
+      destination: row.destination,
+      duration_days: row.duration_days,
+      party_type: row.party_type,
+      budget_band: row.budget_band,
+      preferences: row.preferences || [],
+      days: row.days || [],
+      published_by: row.published_by,
+      source_trip_id: row.source_trip_id,
+      published_at: row.published_at instanceof Date ? row.published_at.toISOString() : row.published_at,
+      times_used: row.times_used
+    };
+  }
+}
+
+export function createTripTemplateRepository(): TripTemplateRepository {
+  const pool = getPool();
+  return pool ? new PostgresTripTemplateRepository(pool) : new InMemoryTripTemplateRepository();
+}
+
+export const tripTemplateRepository = createTripTemplateRepository();
@@ -0,0 +1,95 @@
+import path from 'path';
+import {
+  LLMEvaluationRunner,
+  casesFromSampleItineraries,
+  createEvaluationOrchestrator,
+  formatEvaluationReport,
+  loadEvaluationCases
+} from '../llm-evaluation';
+import { ScriptedLLMTransport } from '../llm-providers/fake';
+import { auditLogger } from '../../utils/audit-logger';
+
+const SAMPLES_FILE = path.join(__dirname, '..', '..', '..', 'docs', 'sample-itineraries.json');
+
+const familyCase = loadEvaluationCases(SAMPLES_FILE).filter(evaluationCase => evaluationCase.task === 'itinerary.generate')[0];
+
+// Two days within the family sample's 4500 per person
+const GOOD_ITINERARY = {
+  total_cost: 12000,
+  days: [
+    { date: '2024-12-15', activities: [{ title: 'Baga Beach Family Morning', cost_per_person: 800 }] },
+    { date: '2024-12-16', activities: [{ title: 'Spice plantation lunch', cost_per_person: 1200 }] }
+  ]
+};
+
+const OVER_BUDGET_ITINERARY = {
+  total_cost: 40000,
+  days: [{ date: '2024-12-15', activities: [{ title: 'Private yacht charter', cost_per_person: 9000 }] }]
+};
+
+function createRunner(transport: ScriptedLLMTransport): LLMEvaluationRunner {
+  return new LLMEvaluationRunner('fake', createEvaluationOrchestrator('fake', transport));
+}
+
+afterAll(() => auditLogger.shutdown());
+
+describe('casesFromSampleItineraries', () => {
+  test('builds a generation and a follow-up case per sample', () => {
+    const cases = casesFromSampleItineraries({
+      sample_itineraries: [{
+        name: 'Weekend',
+        trip_profile: { duration: 2, budget_per_person: 3000, party_composition: { adults: 2, children: 1 } },
+        itinerary: { trip_id: 'weekend_001', days: [{ date: '2024-12-15' }, { date: '2024-12-16' }] }
+      }]
+    });
+
+    expect(cases.map(evaluationCase => evaluationCase.case_id)).toEqual(['weekend_001:itinerary.generate', 'weekend_001:itinerary.create']);
+    expect(cases[0].variables).toEqual(expect.objectContaining({ start_date: '2024-12-15', end_date: '2024-12-16', adults: 2, children: 1 }));
+    expect(cases[0].expect).toEqual(expect.objectContaining({ budget_per_person: 3000, travellers: 3, days: 2 }));
+  });
+
+  test('ignores a document without samples', () => {
+    expect(casesFromSampleItineraries({})).toEqual([]);
+  });
+});
+
+describe('LLMEvaluationRunner', () => {
+  test('scores an itinerary that meets the sample', async () => {
+    const runner = createRunner(new ScriptedLLMTransport([{ task: 'itinerary.generate', json: GOOD_ITINERARY }]));
+
+    const [result] = await runner.evaluate([familyCase], { name: 'baseline' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.provider).toBe('chatgpt');
+    expect(result.checks.filter(check => !check.passed)).toEqual([]);
+    expect(result.score).toBe(1);
+  });
+
+  test('scores invalid JSON as a failed check rather than an error', async () => {
+    const runner = createRunner(new ScriptedLLMTransport([{ task: 'itinerary.generate', reply: 'Here is your itinerary!' }]));
+
+    const [result] = await runner.evaluate([familyCase], { name: 'baseline' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.checks).toEqual([expect.objectContaining({ check: 'valid_json', passed: false })]);
+    expect(result.score).toBe(0);
+  });
+
+  test('reports a candidate that regresses', async () => {
+    const transport = new ScriptedLLMTransport([
+      { provider: 'chatgpt', json: GOOD_ITINERARY },
+      { provider: 'claude', json: OVER_BUDGET_ITINERARY }
+    ]);
+
+    const report = await createRunner(transport).compare(
+      [familyCase],
+      { name: 'current', provider: 'chatgpt' },
+      { name: 'claude', provider: 'claude' }
+    );
+
+    expect(report.regressions).toEqual([familyCase.case_id]);
+    expect(report.cases[0].delta).toBeLessThan(0);
+    expect(report.candidate.pass_rates.within_budget).toBe(0);
+    expect(formatEvaluationReport(report)).toContain(`Regressions: ${familyCase.case_id}`);
+  });
+});
@@ -0,0 +1,89 @@
+import sharp from 'sharp';
+import PhotoVerificationService, { PhotoVerificationRequest } from '../photo-verification';
+import LLMOrchestrator from '../llm-orchestrator';
+import { LLMResponseCache } from '../llm-cache';
+import { LLMBudgetService } from '../llm-budget';
+import { LLMMetrics } from '../llm-metrics';
+import { ProviderCircuitBreaker } from '../llm-circuit-breaker';
+import { TaskRouter } from '../llm-task-routing';
+import { groundingChecker } from '../llm-grounding';
+import { providerAdapters } from '../llm-providers/registry';
+import { ScriptedLLMTransport } from '../llm-providers/fake';
+import { InMemoryLLMUsageRepository } from '../../repositories/llm-usage-repository';
+import { auditLogger } from '../../utils/audit-logger';
+import { featureFlags } from '../../utils/feature-flags';
+
+const SCRIPTED_ANALYSIS = {
+  authenticity_score: 0.9,
+  location_indicators: ['palm_trees', 'portuguese_architecture'],
+  spoof_indicators: ['inconsistent_shadows'],
+  confidence: 0.8
+};
+
+function createService(transport: ScriptedLLMTransport): PhotoVerificationService {
+  return new PhotoVerificationService(new LLMOrchestrator(
+    providerAdapters,
+    new ProviderCircuitBreaker(),
+    new LLMResponseCache(null),
+    new LLMBudgetService({ on_exhausted: 'refuse', downgrade_provider: 'local' }, new InMemoryLLMUsageRepository()),
+    groundingChecker,
+    transport,
+    new LLMMetrics(),
+    new TaskRouter()
+  ));
+}
+
+let request: PhotoVerificationRequest;
+
+beforeAll(async () => {
+  await featureFlags.updateFlag('vision_model_enabled', true);
+  // A plain JPEG without EXIF: the vision analysis is the part under test
+  const photo = await sharp({ create: { width: 64, height: 48, channels: 3, background: '#3a7d44' } }).jpeg().toBuffer();
+  request = {
+    trip_id: 'trip-1',
+    activity_id: 'beach-walk',
+    photo_buffer: photo,
+    expected_location: 'Palolem, Goa'
+  };
+});
+
+afterAll(async () => {
+  await featureFlags.updateFlag('vision_model_enabled', false);
+  await auditLogger.shutdown();
+});
+
+describe('PhotoVerificationService vision analysis through the LLM transport', () => {
+  test('uses the scripted analysis of the photo', async () => {
+    const transport = new ScriptedLLMTransport([{ match: 'authenticity', json: SCRIPTED_ANALYSIS }]);
+
+    const result = await createService(transport).verifyPhoto(request);
+
+    expect(result.vision_analysis).toEqual({
+      location_match: true,
+      authenticity_score: 0.9,
+      detected_objects: ['palm_trees', 'portuguese_architecture'],
+      spoof_indicators: ['inconsistent_shadows']
+    });
+    expect(result.issues).toContain('inconsistent_shadows');
+    expect(transport.calls).toHaveLength(1);
+    expect(transport.calls[0].request.prompt).toContain('Palolem, Goa');
+  });
+
+  test('flags the analysis as failed when the model never returns valid JSON', async () => {
+    const transport = new ScriptedLLMTransport([{ match: 'authenticity', reply: 'The photo looks like a beach.' }]);
+
+    const result = await createService(transport).verifyPhoto(request);
+
+    expect(result.vision_analysis).toMatchObject({ authenticity_score: 0.5, spoof_indicators: ['vision_analysis_failed'] });
+    expect(result.status).not.toBe('verified');
+  });
+
+  test('flags a processing error when every provider fails', async () => {
+    const transport = new ScriptedLLMTransport([{ status: 500 }]);
+
+    const result = await createService(transport).verifyPhoto(request);
+
+    expect(result.vision_analysis).toMatchObject({ authenticity_score: 0.3, spoof_indicators: ['vision_processing_error'] });
+    expect(result.status).toBe('rejected');
+  });
+});
@@ -0,0 +1,185 @@
+import path from 'path';
+import type { Request, Response } from 'express';
+import { AnswerValidationError, TripService } from '../trip-service';
+import LLMOrchestrator from '../llm-orchestrator';
+import { LLMExperiments } from '../llm-experiments';
+import { LLMResponseCache } from '../llm-cache';
+import { LLMBudgetService } from '../llm-budget';
+import { LLMMetrics } from '../llm-metrics';
+import { ProviderCircuitBreaker } from '../llm-circuit-breaker';
+import { TaskRouter } from '../llm-task-routing';
+import { groundingChecker } from '../llm-grounding';
+import { providerAdapters } from '../llm-providers/registry';
+import { ScriptedLLMTransport } from '../llm-providers/fake';
+import { LLMFixtureStore, ReplayTransport } from '../llm-providers/record-replay';
+import type { LLMTransport } from '../llm-providers/transport';
+import { InMemoryTripRepository } from '../../repositories/trip-repository';
+import { InMemoryLLMUsageRepository } from '../../repositories/llm-usage-repository';
+import { InMemoryLLMExperimentRepository } from '../../repositories/llm-experiment-repository';
+import { auditLogger } from '../../utils/audit-logger';
+
+// Hand-authored fixture: RECORDED_QUESTIONS replayed from a ScriptedLLMTransport wrapped in a
+// RecordingTransport, not a live provider call. A prompt change shows up as a missing fixture
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'llm');
+
+const GOA_REQUEST = {
+  destination: 'Goa',
+  message: 'Two of us want quiet beaches, seafood shacks and a spice plantation tour.'
+};
+
+const RECORDED_QUESTIONS = [
+  {
+    question_id: 'start_date',
+    question: 'Which day do you arrive in Goa?',
+    type: 'date',
+    required: true
+  },
+  {
+    question_id: 'end_date',
+    question: 'And which day do you leave?',
+    type: 'date',
+    required: true
+  },
+  {
+    question_id: 'budget_per_person',
+    question: 'Roughly how much would each of you like to spend, in rupees?',
+    type: 'number',
+    required: true
+  }
+];
+
+function createService(transport: LLMTransport, repository: InMemoryTripRepository = new InMemoryTripRepository()): TripService {
+  const orchestrator = new LLMOrchestrator(
+    providerAdapters,
+    new ProviderCircuitBreaker(),
+    new LLMResponseCache(null),
+    new LLMBudgetService({ on_exhausted: 'refuse', downgrade_provider: 'local' }, new InMemoryLLMUsageRepository()),
+    groundingChecker,
+    transport,
+    new LLMMetrics(),
+    new TaskRouter()
+  );
+  const experiments = new LLMExperiments(new InMemoryLLMExperimentRepository(), orchestrator);
+  return new TripService(repository, undefined, undefined, undefined, undefined, experiments);
+}
+
+async function createTrip(service: TripService, body: unknown): Promise<{ status: number; body: any }> {
+  const sent = { status: 200, body: undefined as any };
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      sent.body = payload;
+      return res;
+    },
+    setHeader() {
+      return res;
+    }
+  };
+  const req = { headers: {}, body, user: { id: 'user-1', role: 'user', tier: 'free' } };
+
+  await service.createTrip(req as unknown as Request, res as unknown as Response);
+  return sent;
+}
+
+afterAll(() => auditLogger.shutdown());
+
+describe('TripService follow-up questions through the LLM transport', () => {
+  test('asks the scripted questions', async () => {
+    const transport = new ScriptedLLMTransport([
+      { task: 'itinerary.create', json: { questions: RECORDED_QUESTIONS } }
+    ]);
+
+    const { status, body } = await createTrip(createService(transport), GOA_REQUEST);
+
+    expect(status).toBe(201);
+    expect(body.status).toBe('questions_pending');
+    expect(body.follow_up_questions.map((question: any) => question.question_id)).toEqual(['start_date', 'end_date', 'budget_per_person']);
+    expect(transport.calls).toHaveLength(1);
+    expect(transport.calls[0].provider.key).toBe('rocket');
+  });
+
+  test('copies answers to generated questions onto the trip', async () => {
+    const repository = new InMemoryTripRepository();
+    const service = createService(new ScriptedLLMTransport([
+      { task: 'itinerary.create', json: { questions: RECORDED_QUESTIONS } }
+    ]), repository);
+    const { body } = await createTrip(service, GOA_REQUEST);
+
+    await service.submitAnswers(body.trip_id, [
+      { question_id: 'start_date', answer: '2030-01-10' },
+      { question_id: 'end_date', answer: '2030-01-13' },
+      { question_id: 'budget_per_person', answer: 6000 }
+    ], { actor: 'user-1', trace_id: 'trace-1' });
+
+    const trip = await repository.findById(body.trip_id);
+    expect(trip!.dates).toEqual({ start_date: '2030-01-10', end_date: '2030-01-13' });
+    expect(trip!.budget_per_person).toBe(6000);
+  });
+
+  test('rejects negative amounts and fractional party counts', async () => {
+    const service = createService(new ScriptedLLMTransport([{
+      task: 'itinerary.create',
+      json: { questions: [...RECORDED_QUESTIONS, { question_id: 'adults', question: 'How many adults?', type: 'number', required: true }] }
+    }]));
+    const { body } = await createTrip(service, GOA_REQUEST);
+
+    const error = await service.submitAnswers(body.trip_id, [
+      { question_id: 'budget_per_person', answer: -6000 },
+      { question_id: 'adults', answer: 1.5 }
+    ], { actor: 'user-1', trace_id: 'trace-1' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AnswerValidationError);
+    expect(error.issues).toEqual([
+      { question_id: 'budget_per_person', message: 'must not be negative' },
+      { question_id: 'adults', message: 'must be a whole number' }
+    ]);
+  });
+
+  test('falls back to the default questions when the model invents question IDs', async () => {
+    const transport = new ScriptedLLMTransport([{
+      task: 'itinerary.create',
+      json: { questions: [{ question_id: 'travel_dates', question: 'When are you visiting?', type: 'date_range', required: true }] }
+    }]);
+
+    const { body } = await createTrip(createService(transport), GOA_REQUEST);
+
+    expect(body.follow_up_questions.map((question: any) => question.question_id)).toContain('start_date');
+    expect(body.follow_up_questions.map((question: any) => question.question_id)).not.toContain('travel_dates');
+  });
+
+  test('falls back to the default questions when the provider rejects the request', async () => {
+    const transport = new ScriptedLLMTransport([{ status: 400 }]);
+
+    const { status, body } = await createTrip(createService(transport), GOA_REQUEST);
+
+    expect(status).toBe(201);
+    expect(body.follow_up_questions.length).toBeGreaterThan(0);
+    expect(body.follow_up_questions.map((question: any) => question.question)).not.toContain(RECORDED_QUESTIONS[0].question);
+  });
+
+  test('replays the recorded provider response', async () => {
+    const transport = new ReplayTransport(new LLMFixtureStore(FIXTURES_DIR));
+
+    const { status, body } = await createTrip(createService(transport), GOA_REQUEST);
+
+    expect(status).toBe(201);
+    expect(body.status).toBe('questions_pending');
+    expect(body.follow_up_questions).toEqual(RECORDED_QUESTIONS.map(question => expect.objectContaining(question)));
+  });
+
+  test('never reaches the network for an unrecorded prompt', async () => {
+    const transport = new ReplayTransport(new LLMFixtureStore(FIXTURES_DIR));
+
+    const { status, body } = await createTrip(createService(transport), {
+      ...GOA_REQUEST,
+      message: 'A prompt nobody recorded: surfing lessons in Arambol.'
+    });
+
+    expect(status).toBe(201);
+    expect(body.follow_up_questions.length).toBeGreaterThan(0);
+    expect(body.follow_up_questions.map((question: any) => question.question)).not.toContain(RECORDED_QUESTIONS[0].question);
+  });
+});
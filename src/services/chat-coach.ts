@@ -0,0 +1,199 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { featureFlags } from '../utils/feature-flags';
+import { LLMMessage, llmOrchestrator } from './llm-orchestrator';
+import { InvalidMessagesError, validateMessages } from './llm-messages';
+import { StructuredOutputError } from './llm-structured-output';
+import { taskRouter } from './llm-task-routing';
+import { PROMPT_TEMPLATES } from '../prompts/templates';
+import type { JsonSchema } from '../utils/json-schema';
+
+export interface CoachTripDetails {
+  destination?: string;
+  start_date?: string;
+  end_date?: string;
+  duration_days?: number;
+  party_size?: number;
+  budget_per_person?: number;
+  trip_type?: string;
+  interests?: string[];
+}
+
+export interface CoachReply {
+  reply: string;
+  parsed: CoachTripDetails;
+  done: boolean; // dates (or duration) and budget are known, so an itinerary can be planned
+}
+
+const COACH_REPLY_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['reply'],
+  properties: {
+    reply: { type: 'string', minLength: 1 },
+    parsed: { type: 'object' },
+    done: { type: 'boolean' }
+  }
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_ABBREVIATIONS: Record<string, string> = {
+  jan: 'january', feb: 'february', mar: 'march', apr: 'april', may: 'may', jun: 'june', jul: 'july',
+  aug: 'august', sep: 'september', sept: 'september', oct: 'october', nov: 'november', dec: 'december'
+};
+const KNOWN_INTERESTS = [
+  'beaches', 'nightlife', 'historical sites', 'historical', 'local cuisine', 'food', 'shopping',
+  'nature', 'wildlife', 'adventure sports', 'markets', 'water sports'
+];
+const GENERIC_QUESTION = 'Could you share your travel dates (or duration), budget per person, party size, and interests?';
+
+// "Nov 12th to 13th" (current year) or "3 days"
+function parseDates(text: string, now: Date = new Date()): CoachTripDetails {
+  const normalized = text.toLowerCase().replace(/\./g, '');
+  const range = normalized.match(/(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec|\b[a-z]{3,9}\b)\s*(\d{1,2})(?:st|nd|rd|th)?\s*(?:to|-|–|—|until|through)\s*(\d{1,2})(?:st|nd|rd|th)?/i);
+  if (range) {
+    const month = MONTHS.indexOf(MONTH_ABBREVIATIONS[range[1]] || range[1]);
+    if (month >= 0) {
+      const year = now.getFullYear();
+      return {
+        start_date: new Date(year, month, parseInt(range[2], 10)).toISOString().slice(0, 10),
+        end_date: new Date(year, month, parseInt(range[3], 10)).toISOString().slice(0, 10)
+      };
+    }
+  }
+
+  const duration = normalized.match(/(\d{1,2})\s*(day|days|night|nights)/);
+  return duration ? { duration_days: parseInt(duration[1], 10) } : {};
+}
+
+function parsePartySize(text: string): CoachTripDetails {
+  const match = text.toLowerCase().match(/(\d{1,2})\s*(people|persons|person|pax|travellers|travelers)/);
+  return match ? { party_size: parseInt(match[1], 10) } : {};
+}
+
+function parseBudget(text: string): CoachTripDetails {
+  const match = text.toLowerCase().replace(/[, ]/g, '').match(/(?:inr|rs|₹)?\s*(\d{3,6})\s*(?:pp|perperson|each)?/);
+  return match ? { budget_per_person: parseInt(match[1], 10) } : {};
+}
+
+function parseInterests(text: string): CoachTripDetails {
+  const lower = text.toLowerCase();
+  const found = new Set<string>();
+  KNOWN_INTERESTS.forEach(interest => {
+    if (lower.includes(interest)) found.add(interest === 'historical' ? 'historical sites' : interest);
+  });
+  return found.size > 0 ? { interests: Array.from(found) } : {};
+}
+
+// Rule-based extraction from a single message, so answered questions aren't asked again
+export function extractTripDetails(text: string): CoachTripDetails {
+  return {
+    ...parseDates(text),
+    ...parsePartySize(text),
+    ...parseBudget(text),
+    ...parseInterests(text)
+  };
+}
+
+/**
+ * Trip-planning chat coach. The conversation goes through the LLM orchestrator
+ * (sanitization, budgets, caching, fallback) with the coach's system prompt;
+ * rule-based parsing keeps the reply useful when the model's output isn't.
+ */
+class ChatCoachService {
+  // POST /api/v1/chat/coach  { messages: [{ role, content }], context?: { parsed } }
+  async handleCoach(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+
+    let messages: LLMMessage[];
+    try {
+      messages = validateMessages(req.body?.messages);
+    } catch (error) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: error instanceof InvalidMessagesError ? error.message : 'Invalid messages',
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    // Only the server sets the system prompt
+    const turns = messages.filter(message => message.role !== 'system');
+    const lastUserMessage = turns.filter(message => message.role === 'user').pop()?.content || '';
+    const context = req.body?.context;
+    const known: CoachTripDetails = {
+      destination: 'Goa',
+      ...(context?.parsed && typeof context.parsed === 'object' ? context.parsed : {}),
+      ...extractTripDetails(lastUserMessage)
+    };
+
+    if (!await featureFlags.isEnabled('llm_orchestration')) {
+      res.json(this.getOfflineReply(lastUserMessage));
+      return;
+    }
+
+    try {
+      const route = taskRouter.getRoute('chat.coach')!;
+      const { data } = await llmOrchestrator.generateStructured<{ reply: string; parsed?: CoachTripDetails }>({
+        messages: [{ role: 'system', content: PROMPT_TEMPLATES.CHAT_COACH.trim() }, ...turns],
+        task: 'chat.coach',
+        user_id: req.user?.id,
+        trace_id: traceId,
+        max_tokens: route.max_tokens,
+        temperature: route.temperature,
+        cache_ttl: route.cache_ttl
+      }, COACH_REPLY_SCHEMA, { max_repairs: 1 });
+
+      res.json(this.composeReply(known, data.parsed || {}));
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        res.json({ reply: GENERIC_QUESTION, parsed: {}, done: false });
+        return;
+      }
+
+      console.error('chat/coach error:', error instanceof Error ? error.message : error);
+      res.status(500).json({
+        reply: 'Sorry, I had trouble. Could you share your dates (or duration), budget per person, party size, and interests?',
+        parsed: {},
+        done: false
+      });
+    }
+  }
+
+  // Merges what the model extracted with what we already know, then asks only for what's missing
+  private composeReply(known: CoachTripDetails, extracted: CoachTripDetails): CoachReply {
+    const merged: CoachTripDetails = { ...known, ...extracted };
+    if (merged.start_date && merged.end_date) delete merged.duration_days;
+
+    const hasDates = !!((known.start_date && known.end_date) || known.duration_days);
+    const done = !!((merged.start_date && merged.end_date) || merged.duration_days) && !!merged.budget_per_person;
+
+    if (done) {
+      const parts: string[] = [];
+      if (merged.start_date && merged.end_date) parts.push(`dates ${merged.start_date} to ${merged.end_date}`);
+      else if (merged.duration_days) parts.push(`${merged.duration_days} days`);
+      if (merged.party_size) parts.push(`${merged.party_size} people`);
+      if (merged.budget_per_person) parts.push(`₹${merged.budget_per_person} per person`);
+      if (merged.interests?.length) parts.push(`interests: ${merged.interests.join(', ')}`);
+      return { reply: `Great! I have ${parts.join(', ')}. Shall I plan your itinerary now?`, parsed: merged, done };
+    }
+
+    const asks: string[] = [];
+    if (!hasDates) asks.push('dates (start and end) or duration');
+    if (!known.budget_per_person) asks.push('budget per person');
+    if (!merged.party_size) asks.push('party size');
+    if (!merged.interests || merged.interests.length === 0) asks.push('interests');
+    return { reply: `Got it. Could you share your ${asks.join(', ')}?`, parsed: merged, done };
+  }
+
+  private getOfflineReply(lastUserMessage: string): CoachReply {
+    const reply = /date|day|month|week/.test(lastUserMessage.toLowerCase())
+      ? 'Great! What is your budget per person and how many people are traveling?'
+      : 'Tell me your travel dates (start and end) or how many days, your budget per person, party size, and any interests (e.g., Beaches, Nightlife, Historical sites).';
+    return { reply, parsed: {}, done: false };
+  }
+}
+
+export const chatCoachService = new ChatCoachService();
+export default ChatCoachService;
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { extractJson } from '../utils/json-extraction';
+import type { JsonSchema } from '../utils/json-schema';
+import type { FollowUpQuestion } from './trip-service';
+import type { TripInfoField } from './trip-gap-analyzer';
+
+type QuestionType = FollowUpQuestion['type'];
+
+const QUESTION_TYPES: QuestionType[] = ['single_choice', 'multiple_choice', 'text', 'number', 'date'];
+
+// Types models tend to invent, mapped onto the ones we support
+const QUESTION_TYPE_ALIASES: Record<string, QuestionType> = {
+  date_range: 'date',
+  datetime: 'date',
+  choice: 'single_choice',
+  select: 'single_choice',
+  radio: 'single_choice',
+  multi_select: 'multiple_choice',
+  multiselect: 'multiple_choice',
+  checkbox: 'multiple_choice',
+  integer: 'number',
+  numeric: 'number',
+  free_text: 'text',
+  string: 'text'
+};
+
+const MAX_QUESTIONS = 5;
+const MAX_QUESTION_LENGTH = 300;
+
+export const INTEREST_OPTIONS = [
+  'Beaches',
+  'Historical sites',
+  'Adventure sports',
+  'Nightlife',
+  'Local cuisine',
+  'Shopping',
+  'Nature/Wildlife'
+];
+
+/**
+ * The question IDs TripService copies answers onto trip fields. Generated questions
+ * are limited to these; an answer to any other ID would be stored but never fill a gap.
+ */
+export const TRIP_FIELD_QUESTION_IDS = ['start_date', 'end_date', 'budget_per_person', 'adults', 'children', 'infants', 'interests'];
+
+// Which of those IDs ask about each gap
+export const GAP_QUESTION_IDS: Record<TripInfoField, string[]> = {
+  dates: ['start_date', 'end_date'],
+  budget_per_person: ['budget_per_person'],
+  party_composition: ['adults', 'children', 'infants'],
+  preferences: ['interests']
+};
+
+const QUESTION_LIST_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    required: ['question_id', 'question', 'type'],
+    properties: {
+      question_id: { type: 'string', enum: TRIP_FIELD_QUESTION_IDS },
+      question: { type: 'string', minLength: 1 },
+      type: { type: 'string' },
+      options: { type: 'array', items: { type: 'string' } },
+      required: { type: 'boolean' }
+    }
+  }
+};
+
+// Shape requested from the LLM; types are loose strings since aliases are normalized after validation.
+// A bare array is as usable as the object form (see normalizeFollowUpQuestions), so it isn't sent back for repair.
+export const FOLLOW_UP_QUESTIONS_SCHEMA: JsonSchema = {
+  anyOf: [
+    { type: 'object', required: ['questions'], properties: { questions: QUESTION_LIST_SCHEMA } },
+    QUESTION_LIST_SCHEMA
+  ]
+};
+
+/**
+ * Parses follow-up questions from raw LLM output.
+ *
+ * Accepts a bare array or an object with a `questions` array, optionally wrapped in
+ * code fences or prose. Malformed entries are dropped rather than failing the batch.
+ */
+export function parseFollowUpQuestions(content: string): FollowUpQuestion[] {
+  return normalizeFollowUpQuestions(extractJson(content));
+}
+
+// Same as parseFollowUpQuestions, for output that has already been parsed
+export function normalizeFollowUpQuestions(parsed: unknown): FollowUpQuestion[] {
+  const rawQuestions = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as any).questions)
+      ? (parsed as any).questions
+      : [];
+
+  const questions: FollowUpQuestion[] = [];
+  const usedIds = new Set<string>();
+
+  for (const raw of rawQuestions) {
+    const question = normalizeQuestion(raw);
+    if (!question || usedIds.has(question.question_id)) continue;
+
+    usedIds.add(question.question_id);
+    questions.push(question);
+
+    if (questions.length >= MAX_QUESTIONS) break;
+  }
+
+  return questions;
+}
+
+/**
+ * Deterministic question set used when the LLM is disabled or its output is unusable.
+ * Only the given gaps are asked about; question IDs match the fields TripService
+ * copies answers onto.
+ */
+export function getDefaultFollowUpQuestions(gaps: TripInfoField[]): FollowUpQuestion[] {
+  const questions: FollowUpQuestion[] = [];
+
+  if (gaps.includes('dates')) {
+    questions.push(
+      { question_id: 'start_date', question: 'When does your trip start?', type: 'date', required: true },
+      { question_id: 'end_date', question: 'When does your trip end?', type: 'date', required: true }
+    );
+  }
+
+  if (gaps.includes('budget_per_person')) {
+    questions.push({
+      question_id: 'budget_per_person',
+      question: 'What is your budget per person (in INR)?',
+      type: 'number',
+      required: true
+    });
+  }
+
+  if (gaps.includes('party_composition')) {
+    questions.push(
+      { question_id: 'adults', question: 'How many adults are travelling?', type: 'number', required: true },
+      { question_id: 'children', question: 'How many children (2-12 years) are travelling?', type: 'number', required: false }
+    );
+  }
+
+  if (gaps.includes('preferences')) {
+    questions.push({
+      question_id: 'interests',
+      question: 'What activities interest you most?',
+      type: 'multiple_choice',
+      options: INTEREST_OPTIONS,
+      required: false
+    });
+  }
+
+  return questions;
+}
+
+function normalizeQuestion(raw: any): FollowUpQuestion | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const text = typeof raw.question === 'string' ? raw.question
+    : typeof raw.text === 'string' ? raw.text
+    : '';
+  const questionText = text.trim();
+  if (!questionText || questionText.length > MAX_QUESTION_LENGTH) {
+    return null;
+  }
+
+  const type = normalizeType(raw.type);
+  if (!type) {
+    return null;
+  }
+
+  const question: FollowUpQuestion = {
+    question_id: normalizeQuestionId(raw.question_id ?? raw.id, questionText),
+    question: questionText,
+    type,
+    required: typeof raw.required === 'boolean' ? raw.required : true
+  };
+
+  if (type === 'single_choice' || type === 'multiple_choice') {
+    const options = Array.isArray(raw.options)
+      ? raw.options.filter((option: unknown) => typeof option === 'string' && option.trim() !== '')
+        .map((option: string) => option.trim())
+      : [];
+
+    // A choice question without choices cannot be answered
+    if (options.length < 2) {
+      return null;
+    }
+    question.options = options;
+  }
+
+  return question;
+}
+
+function normalizeType(type: unknown): QuestionType | null {
+  if (typeof type !== 'string') {
+    return 'text';
+  }
+
+  const normalized = type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((QUESTION_TYPES as string[]).includes(normalized)) {
+    return normalized as QuestionType;
+  }
+  return QUESTION_TYPE_ALIASES[normalized] || null;
+}
+
+// Keeps model-provided IDs when usable, otherwise derives one from the question text
+// so the same question gets the same ID across regenerations
+function normalizeQuestionId(id: unknown, questionText: string): string {
+  if (typeof id === 'string') {
+    const slug = id.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 50);
+    if (slug) {
+      return slug;
+    }
+  }
+
+  const hash = crypto.createHash('sha256').update(questionText.toLowerCase()).digest('hex').substring(0, 10);
+  return `q_${hash}`;
+}
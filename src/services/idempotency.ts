@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { IdempotencyRepository, idempotencyRepository } from '../repositories/idempotency-repository';
+
+export type IdempotencyOutcome =
+  | { type: 'proceed' }
+  | { type: 'replay'; status: number; body: unknown }
+  | { type: 'fingerprint_mismatch' }
+  | { type: 'in_progress' };
+
+/**
+ * Idempotency-Key handling for non-idempotent POSTs, following the booking flow:
+ * the first request claims the key, its successful response is stored and replayed
+ * to retries with the same body. Keys are scoped per user and operation.
+ */
+export class IdempotencyService {
+  private readonly RESPONSE_TTL_MS = 24 * 60 * 60 * 1000; // replay window
+  private readonly IN_PROGRESS_TTL_MS = 5 * 60 * 1000; // abandoned claims free up after this
+  private readonly MAX_KEY_LENGTH = 255;
+  private readonly COMPLETE_ATTEMPTS = 3;
+
+  constructor(private repository: IdempotencyRepository = idempotencyRepository) {}
+
+  isValidKey(key: string): boolean {
+    return key.length > 0 && key.length <= this.MAX_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key);
+  }
+
+  async begin(scope: string, userId: string, key: string, payload: unknown): Promise<IdempotencyOutcome> {
+    const fingerprint = this.fingerprint(payload);
+    const now = Date.now();
+
+    const existing = await this.repository.reserve({
+      scope,
+      user_id: userId,
+      idempotency_key: key,
+      request_fingerprint: fingerprint,
+      status: 'in_progress',
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + this.IN_PROGRESS_TTL_MS).toISOString()
+    });
+
+    if (!existing) {
+      return { type: 'proceed' };
+    }
+    if (existing.request_fingerprint !== fingerprint) {
+      return { type: 'fingerprint_mismatch' };
+    }
+    if (existing.status === 'completed' && existing.response_status !== undefined) {
+      return { type: 'replay', status: existing.response_status, body: existing.response_body };
+    }
+    return { type: 'in_progress' };
+  }
+
+  // The work is already done when this runs, so a failed write is retried before giving up
+  async complete(scope: string, userId: string, key: string, status: number, body: unknown): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.repository.complete(scope, userId, key, {
+          status,
+          body,
+          expires_at: new Date(Date.now() + this.RESPONSE_TTL_MS).toISOString()
+        });
+        return;
+      } catch (error) {
+        if (attempt >= this.COMPLETE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  // Frees the key after a failed attempt so the client can retry it
+  async release(scope: string, userId: string, key: string): Promise<void> {
+    await this.repository.release(scope, userId, key);
+  }
+
+  fingerprint(payload: unknown): string {
+    return createHash('sha256').update(this.canonicalize(payload)).digest('hex');
+  }
+
+  // JSON with sorted object keys so property order doesn't change the fingerprint
+  private canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${this.canonicalize((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value === undefined ? null : value);
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
+export default IdempotencyService;
@@ -1,10 +1,12 @@
 import { v4 as uuidv4 } from 'uuid';
 import { auditLogger } from '../utils/audit-logger';
 import { featureFlags } from '../utils/feature-flags';
+import { TripLeg } from './trip-legs';
 
 export interface OptimizationRequest {
   trip_id: string;
   destination: string;
+  legs?: TripLeg[]; // ordered, contiguous stays; omitted for single-base trips
   dates: {
     start_date: string;
     end_date: string;
@@ -16,6 +18,7 @@ export interface OptimizationRequest {
   };
   budget_per_person: number;
   preferences: string[];
+  planned_days?: string[][]; // activity ids per day, e.g. from a cloned itinerary or a template
   constraints?: {
     mobility_limited?: boolean;
     dietary_restrictions?: string[];
@@ -72,6 +75,14 @@ export interface OptimizedItinerary {
 
 export interface DayItinerary {
   date: string;
+  leg_id?: string;
+  destination?: string;
+  transfer?: {
+    from: string;
+    to: string;
+    distance_km: number;
+    duration_minutes: number;
+  };
   activities: Activity[];
   total_cost: number;
   travel_time: number;
@@ -89,10 +100,168 @@ export interface Alternative {
   description: string;
 }
 
+// Approximate centres used when a destination or leg has no explicit base location
+export const KNOWN_BASE_LOCATIONS: Record<string, { lat: number; lng: number; radius_km: number }> = {
+  'goa': { lat: 15.4909, lng: 73.8278, radius_km: 80 },
+  'north goa': { lat: 15.5439, lng: 73.7553, radius_km: 35 },
+  'south goa': { lat: 15.1700, lng: 73.9700, radius_km: 30 },
+  'panjim': { lat: 15.4909, lng: 73.8278, radius_km: 25 },
+  'gokarna': { lat: 14.5479, lng: 74.3188, radius_km: 30 }
+};
+
+// Mock activity catalog based on Goa POIs, until activities are queried from the database
+export const ACTIVITY_CATALOG: Activity[] = [
+  {
+    activity_id: 'baga_beach_001',
+    title: 'Baga Beach Family Day',
+    description: 'Family-friendly beach with water sports and restaurants',
+    category: 'beach',
+    duration: 240,
+    cost_per_person: 800,
+    location: {
+      lat: 15.5557,
+      lng: 73.7516,
+      address: 'Baga Beach, Goa',
+      poi_id: 'poi_baga_beach'
+    },
+    booking_required: false,
+    weather_dependent: true,
+    age_appropriate: { min_age: 0 },
+    accessibility: { wheelchair_accessible: false, mobility_friendly: true },
+    time_slots: ['09:00', '10:00', '11:00', '14:00', '15:00'],
+    popularity_score: 0.9,
+    rating: 4.5
+  },
+  {
+    activity_id: 'old_goa_tour_001',
+    title: 'Old Goa Heritage Tour',
+    description: 'UNESCO World Heritage churches and museums',
+    category: 'cultural',
+    duration: 180,
+    cost_per_person: 600,
+    location: {
+      lat: 15.5007,
+      lng: 73.9115,
+      address: 'Old Goa, Goa',
+      poi_id: 'poi_old_goa'
+    },
+    booking_required: true,
+    weather_dependent: false,
+    age_appropriate: { min_age: 8 },
+    accessibility: { wheelchair_accessible: true, mobility_friendly: true },
+    time_slots: ['09:00', '11:00', '14:00', '16:00'],
+    popularity_score: 0.8,
+    rating: 4.3
+  },
+  {
+    activity_id: 'dudhsagar_trek_001',
+    title: 'Dudhsagar Falls Trek',
+    description: 'Adventure trek to four-tiered waterfall',
+    category: 'adventure',
+    duration: 360,
+    cost_per_person: 2500,
+    location: {
+      lat: 15.3144,
+      lng: 74.3144,
+      address: 'Dudhsagar Falls, Mollem, Goa'
+    },
+    booking_required: true,
+    weather_dependent: true,
+    age_appropriate: { min_age: 12, max_age: 65 },
+    accessibility: { wheelchair_accessible: false, mobility_friendly: false },
+    time_slots: ['06:00', '07:00'],
+    popularity_score: 0.7,
+    rating: 4.7
+  },
+  {
+    activity_id: 'anjuna_market_001',
+    title: 'Anjuna Flea Market',
+    description: 'Weekly market with local crafts, clothes, and food',
+    category: 'shopping',
+    duration: 120,
+    cost_per_person: 300,
+    location: {
+      lat: 15.5735,
+      lng: 73.7395,
+      address: 'Anjuna Beach, Goa'
+    },
+    booking_required: false,
+    weather_dependent: false,
+    age_appropriate: { min_age: 0 },
+    accessibility: { wheelchair_accessible: false, mobility_friendly: true },
+    time_slots: ['10:00', '11:00', '12:00', '14:00', '15:00', '16:00'],
+    popularity_score: 0.6,
+    rating: 4.1
+  },
+  {
+    activity_id: 'palolem_kayak_001',
+    title: 'Palolem Bay Kayaking',
+    description: 'Calm-water kayaking around Palolem bay and Butterfly Beach',
+    category: 'beach',
+    duration: 150,
+    cost_per_person: 700,
+    location: {
+      lat: 15.0100,
+      lng: 74.0232,
+      address: 'Palolem Beach, Canacona, South Goa'
+    },
+    booking_required: true,
+    weather_dependent: true,
+    age_appropriate: { min_age: 8 },
+    accessibility: { wheelchair_accessible: false, mobility_friendly: false },
+    time_slots: ['07:00', '08:00', '16:00'],
+    popularity_score: 0.7,
+    rating: 4.4
+  },
+  {
+    activity_id: 'cabo_de_rama_001',
+    title: 'Cabo de Rama Fort',
+    description: 'Clifftop fort with sea views and a small chapel',
+    category: 'cultural',
+    duration: 120,
+    cost_per_person: 0,
+    location: {
+      lat: 15.0883,
+      lng: 73.9197,
+      address: 'Cabo de Rama, South Goa'
+    },
+    booking_required: false,
+    weather_dependent: false,
+    age_appropriate: { min_age: 0 },
+    accessibility: { wheelchair_accessible: false, mobility_friendly: true },
+    time_slots: ['09:00', '16:00'],
+    popularity_score: 0.5,
+    rating: 4.3
+  },
+  {
+    activity_id: 'om_beach_gokarna_001',
+    title: 'Om Beach and Half Moon Beach Walk',
+    description: 'Coastal walk between Gokarna beaches with a boat ride back',
+    category: 'beach',
+    duration: 240,
+    cost_per_person: 400,
+    location: {
+      lat: 14.5191,
+      lng: 74.3194,
+      address: 'Om Beach, Gokarna, Karnataka'
+    },
+    booking_required: false,
+    weather_dependent: true,
+    age_appropriate: { min_age: 6 },
+    accessibility: { wheelchair_accessible: false, mobility_friendly: false },
+    time_slots: ['08:00', '15:00'],
+    popularity_score: 0.7,
+    rating: 4.6
+  }
+];
+
 class ItineraryOptimizer {
   private readonly BUDGET_BUFFER = 0.1; // 10% buffer for budget calculations
   private readonly MAX_TRAVEL_TIME_PER_DAY = 180; // 3 hours max travel per day
   private readonly MIN_ACTIVITY_DURATION = 30; // 30 minutes minimum
+  private readonly DAY_ACTIVITY_MINUTES = 8 * 60; // 8 hours available per day
+  private readonly LEG_RADIUS_KM = 40; // activity radius around a custom leg base location
+  private readonly AVERAGE_SPEED_KMH = 30;
 
   /**
    * Budget-First Itinerary Optimization Algorithm
@@ -137,12 +306,10 @@ class ItineraryOptimizer {
       // Step 5: Score and rank activities
       const scoredActivities = this.scoreActivities(feasibleActivities, request);
       
-      // Step 6: Generate optimal daily schedules
-      const optimizedDays = await this.generateDailySchedules(
-        scoredActivities, 
-        request, 
-        budgetPerDay
-      );
+      // Step 6: Generate optimal daily schedules (per leg for multi-destination trips)
+      const optimizedDays = request.legs && request.legs.length > 0
+        ? await this.generateLegSchedules(scoredActivities, request, budgetPerDay)
+        : await this.generateDailySchedules(scoredActivities, request, budgetPerDay);
       
       // Step 7: Calculate total cost and validate budget
       const totalCost = optimizedDays.reduce((sum, day) => sum + day.total_cost, 0);
@@ -223,6 +390,28 @@ class ItineraryOptimizer {
     if (totalPeople === 0) {
       throw new Error('At least one person required in party composition');
     }
+
+    if (request.legs && request.legs.length > 0) {
+      this.validateLegs(request.legs, request.dates);
+    }
+  }
+
+  private validateLegs(legs: TripLeg[], dates: { start_date: string; end_date: string }): void {
+    if (legs[0].start_date !== dates.start_date || legs[legs.length - 1].end_date !== dates.end_date) {
+      throw new Error('legs must cover the trip dates exactly');
+    }
+
+    legs.forEach((leg, index) => {
+      if (!leg.leg_id || !leg.destination) {
+        throw new Error('each leg requires leg_id and destination');
+      }
+      if (new Date(leg.start_date) >= new Date(leg.end_date)) {
+        throw new Error(`leg '${leg.destination}' must be at least one night`);
+      }
+      if (index > 0 && legs[index - 1].end_date !== leg.start_date) {
+        throw new Error(`leg '${leg.destination}' must start when the previous leg ends`);
+      }
+    });
   }
 
   private calculateTripDuration(dates: { start_date: string; end_date: string }): number {
@@ -233,98 +422,18 @@ class ItineraryOptimizer {
 
   private async fetchCandidateActivities(request: OptimizationRequest): Promise<Activity[]> {
     // In production, this would query the database with geospatial search
-    // For now, return mock data based on Goa POIs
-    
-    const mockActivities: Activity[] = [
-      {
-        activity_id: 'baga_beach_001',
-        title: 'Baga Beach Family Day',
-        description: 'Family-friendly beach with water sports and restaurants',
-        category: 'beach',
-        duration: 240,
-        cost_per_person: 800,
-        location: {
-          lat: 15.5557,
-          lng: 73.7516,
-          address: 'Baga Beach, Goa',
-          poi_id: 'poi_baga_beach'
-        },
-        booking_required: false,
-        weather_dependent: true,
-        age_appropriate: { min_age: 0 },
-        accessibility: { wheelchair_accessible: false, mobility_friendly: true },
-        time_slots: ['09:00', '10:00', '11:00', '14:00', '15:00'],
-        popularity_score: 0.9,
-        rating: 4.5
-      },
-      {
-        activity_id: 'old_goa_tour_001',
-        title: 'Old Goa Heritage Tour',
-        description: 'UNESCO World Heritage churches and museums',
-        category: 'cultural',
-        duration: 180,
-        cost_per_person: 600,
-        location: {
-          lat: 15.5007,
-          lng: 73.9115,
-          address: 'Old Goa, Goa',
-          poi_id: 'poi_old_goa'
-        },
-        booking_required: true,
-        weather_dependent: false,
-        age_appropriate: { min_age: 8 },
-        accessibility: { wheelchair_accessible: true, mobility_friendly: true },
-        time_slots: ['09:00', '11:00', '14:00', '16:00'],
-        popularity_score: 0.8,
-        rating: 4.3
-      },
-      {
-        activity_id: 'dudhsagar_trek_001',
-        title: 'Dudhsagar Falls Trek',
-        description: 'Adventure trek to four-tiered waterfall',
-        category: 'adventure',
-        duration: 360,
-        cost_per_person: 2500,
-        location: {
-          lat: 15.3144,
-          lng: 74.3144,
-          address: 'Dudhsagar Falls, Mollem, Goa'
-        },
-        booking_required: true,
-        weather_dependent: true,
-        age_appropriate: { min_age: 12, max_age: 65 },
-        accessibility: { wheelchair_accessible: false, mobility_friendly: false },
-        time_slots: ['06:00', '07:00'],
-        popularity_score: 0.7,
-        rating: 4.7
-      },
-      {
-        activity_id: 'anjuna_market_001',
-        title: 'Anjuna Flea Market',
-        description: 'Weekly market with local crafts, clothes, and food',
-        category: 'shopping',
-        duration: 120,
-        cost_per_person: 300,
-        location: {
-          lat: 15.5735,
-          lng: 73.7395,
-          address: 'Anjuna Beach, Goa'
-        },
-        booking_required: false,
-        weather_dependent: false,
-        age_appropriate: { min_age: 0 },
-        accessibility: { wheelchair_accessible: false, mobility_friendly: true },
-        time_slots: ['10:00', '11:00', '12:00', '14:00', '15:00', '16:00'],
-        popularity_score: 0.6,
-        rating: 4.1
-      }
-    ];
+    // For now, return the mock catalog
 
-    // Filter by destination and preferences
-    return mockActivities.filter(activity => {
-      // Basic destination filtering would be done via geospatial query in production
-      return true;
-    });
+    // Multi-destination trips are filtered per leg when scheduling
+    if (request.legs && request.legs.length > 0) {
+      return ACTIVITY_CATALOG;
+    }
+
+    // Basic destination filtering; would be done via geospatial query in production
+    const area = KNOWN_BASE_LOCATIONS[request.destination.trim().toLowerCase()];
+    return area
+      ? ACTIVITY_CATALOG.filter(activity => this.isWithinArea(activity, area, area.radius_km))
+      : ACTIVITY_CATALOG;
   }
 
   private applyHardConstraints(
@@ -401,7 +510,7 @@ class ItineraryOptimizer {
       const currentDate = new Date(request.dates.start_date);
       currentDate.setDate(currentDate.getDate() + dayIndex);
       
-      const dayActivities = this.selectDayActivities(activities, budgetPerDay, dayIndex);
+      const dayActivities = this.selectDayActivities(this.getDayCandidates(activities, request, dayIndex), budgetPerDay, dayIndex);
       const optimizedSchedule = this.optimizeDaySchedule(dayActivities);
       
       const dayTotalCost = optimizedSchedule.reduce((sum, activity) => 
@@ -420,12 +529,102 @@ class ItineraryOptimizer {
     return days;
   }
 
-  private selectDayActivities(activities: Activity[], budgetPerDay: number, dayIndex: number): Activity[] {
+  /**
+   * Multi-destination scheduling: each leg gets its own nights and nearby activities.
+   * The first day of every leg after the first is a transfer day with less time for activities.
+   */
+  private async generateLegSchedules(
+    activities: Activity[],
+    request: OptimizationRequest,
+    budgetPerDay: number
+  ): Promise<DayItinerary[]> {
+    const days: DayItinerary[] = [];
+    const legs = request.legs || [];
+    const partyMultiplier = this.getPartyMultiplier(request.party_composition);
+
+    legs.forEach((leg, legIndex) => {
+      const base = this.resolveBaseLocation(leg);
+      const legActivities = base
+        ? activities.filter(activity => this.isWithinArea(activity, base, base.radius_km))
+        : activities;
+
+      const previousBase = legIndex > 0 ? this.resolveBaseLocation(legs[legIndex - 1]) : null;
+      const legDuration = this.calculateTripDuration(leg);
+
+      for (let dayIndex = 0; dayIndex < legDuration; dayIndex++) {
+        const currentDate = new Date(leg.start_date);
+        currentDate.setDate(currentDate.getDate() + dayIndex);
+
+        let transfer: DayItinerary['transfer'];
+        let availableMinutes = this.DAY_ACTIVITY_MINUTES;
+
+        if (legIndex > 0 && dayIndex === 0) {
+          const distance = previousBase && base
+            ? this.calculateDistance(previousBase.lat, previousBase.lng, base.lat, base.lng)
+            : 0;
+          const duration = Math.round((distance / this.AVERAGE_SPEED_KMH) * 60);
+
+          transfer = {
+            from: legs[legIndex - 1].destination,
+            to: leg.destination,
+            distance_km: Math.round(distance),
+            duration_minutes: duration
+          };
+          // Check-out, drive and check-in leave little of the day; 1 hour allowance for hotel logistics
+          availableMinutes = Math.max(0, this.DAY_ACTIVITY_MINUTES - duration - 60);
+        }
+
+        const dayActivities = this.selectDayActivities(
+          this.getDayCandidates(legActivities, request, days.length), budgetPerDay, dayIndex, availableMinutes
+        );
+        const optimizedSchedule = this.optimizeDaySchedule(dayActivities);
+
+        days.push({
+          date: currentDate.toISOString().split('T')[0],
+          leg_id: leg.leg_id,
+          destination: leg.destination,
+          transfer,
+          activities: optimizedSchedule,
+          total_cost: optimizedSchedule.reduce((sum, activity) => sum + activity.cost_per_person * partyMultiplier, 0),
+          travel_time: this.calculateTravelTime(optimizedSchedule) + (transfer ? transfer.duration_minutes : 0)
+        });
+      }
+    });
+
+    return days;
+  }
+
+  private resolveBaseLocation(leg: TripLeg): { lat: number; lng: number; radius_km: number } | null {
+    if (leg.base_location) {
+      return { lat: leg.base_location.lat, lng: leg.base_location.lng, radius_km: this.LEG_RADIUS_KM };
+    }
+    return KNOWN_BASE_LOCATIONS[leg.destination.trim().toLowerCase()] || null;
+  }
+
+  private isWithinArea(activity: Activity, center: { lat: number; lng: number }, radiusKm: number): boolean {
+    return this.calculateDistance(activity.location.lat, activity.location.lng, center.lat, center.lng) <= radiusKm;
+  }
+
+  // A planned day keeps whichever of its activities are still feasible; days without any are planned afresh
+  private getDayCandidates(activities: Activity[], request: OptimizationRequest, dayNumber: number): Activity[] {
+    const planned = request.planned_days?.[dayNumber] || [];
+    const kept = planned
+      .map(activityId => activities.find(activity => activity.activity_id === activityId))
+      .filter((activity): activity is Activity => !!activity);
+    return kept.length > 0 ? kept : activities;
+  }
+
+  private selectDayActivities(
+    activities: Activity[],
+    budgetPerDay: number,
+    dayIndex: number,
+    availableMinutes: number = this.DAY_ACTIVITY_MINUTES
+  ): Activity[] {
     // Dynamic programming approach for activity selection
     const availableActivities = activities.slice(); // Copy array
     const selectedActivities: Activity[] = [];
     let remainingBudget = budgetPerDay;
-    let remainingTime = 8 * 60; // 8 hours available per day
+    let remainingTime = availableMinutes;
     
     // Greedy selection with budget and time constraints
     for (const activity of availableActivities) {
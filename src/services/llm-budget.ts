@@ -0,0 +1,161 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  LLMUsageRepository,
+  UsageBreakdownRow,
+  UsageDimension,
+  UsageTotals,
+  llmUsageRepository
+} from '../repositories/llm-usage-repository';
+
+export type BudgetScope = 'global' | 'user' | 'task';
+
+export interface BudgetLimit {
+  cost?: number; // same units as provider cost_per_token
+  tokens?: number;
+}
+
+export interface LLMBudgetConfig {
+  global_daily?: BudgetLimit;
+  user_daily?: BudgetLimit;
+  task_daily?: Record<string, BudgetLimit>; // keyed by PROMPT_ROUTING task
+  // What to do once a budget is spent: refuse, or answer from the downgrade provider instead
+  on_exhausted: 'refuse' | 'downgrade';
+  downgrade_provider: string;
+}
+
+export interface ExhaustedBudget {
+  scope: BudgetScope;
+  key?: string; // user id or task
+  limit: BudgetLimit;
+  spent: UsageTotals;
+}
+
+export type BudgetDecision =
+  | { action: 'allow' }
+  | { action: 'downgrade'; provider: string; exhausted: ExhaustedBudget[] }
+  | { action: 'refuse'; exhausted: ExhaustedBudget[] };
+
+export interface SpendReport {
+  from: string;
+  to: string;
+  group_by: UsageDimension[];
+  totals: UsageTotals;
+  breakdown: UsageBreakdownRow[];
+}
+
+export class BudgetExceededError extends Error {
+  readonly code = 'BUDGET_EXCEEDED';
+
+  constructor(public readonly exhausted: ExhaustedBudget[]) {
+    super(`LLM budget exhausted: ${exhausted.map(budget => budget.key ? `${budget.scope} '${budget.key}'` : budget.scope).join(', ')}`);
+    this.name = 'BudgetExceededError';
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
+
+// LLM_BUDGET_TASK_DAILY_COST format: "itinerary.generate=5,blog.summarize=1"
+function parseTaskLimits(value: string | undefined): Record<string, BudgetLimit> {
+  const limits: Record<string, BudgetLimit> = {};
+  (value || '').split(',').forEach(pair => {
+    const [task, amount] = pair.split('=').map(part => part.trim());
+    if (task && amount && !isNaN(Number(amount))) {
+      limits[task] = { cost: Number(amount) };
+    }
+  });
+  return limits;
+}
+
+function parseLimit(cost: string | undefined, tokens: string | undefined): BudgetLimit | undefined {
+  const limit: BudgetLimit = {};
+  if (cost && !isNaN(Number(cost))) limit.cost = Number(cost);
+  if (tokens && !isNaN(Number(tokens))) limit.tokens = Number(tokens);
+  return limit.cost !== undefined || limit.tokens !== undefined ? limit : undefined;
+}
+
+export function loadBudgetConfigFromEnv(): LLMBudgetConfig {
+  return {
+    global_daily: parseLimit(process.env.LLM_BUDGET_GLOBAL_DAILY_COST, process.env.LLM_BUDGET_GLOBAL_DAILY_TOKENS),
+    user_daily: parseLimit(process.env.LLM_BUDGET_USER_DAILY_COST, process.env.LLM_BUDGET_USER_DAILY_TOKENS),
+    task_daily: parseTaskLimits(process.env.LLM_BUDGET_TASK_DAILY_COST),
+    on_exhausted: process.env.LLM_BUDGET_ON_EXHAUSTED === 'refuse' ? 'refuse' : 'downgrade',
+    downgrade_provider: process.env.LLM_BUDGET_DOWNGRADE_PROVIDER || 'local'
+  };
+}
+
+/**
+ * Daily (UTC) spend limits for LLM usage, globally, per user and per task.
+ * Usage is recorded after each provider call, so concurrent requests can
+ * overshoot a limit by at most their own cost.
+ */
+export class LLMBudgetService {
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  constructor(
+    private config: LLMBudgetConfig = loadBudgetConfigFromEnv(),
+    private repository: LLMUsageRepository = llmUsageRepository
+  ) {}
+
+  async check(context: { user_id?: string; task?: string }, now: Date = new Date()): Promise<BudgetDecision> {
+    const { from, to } = this.getDayWindow(now);
+    const checks: Array<{ scope: BudgetScope; key?: string; limit?: BudgetLimit; filter: { user_id?: string; task?: string } }> = [
+      { scope: 'global', limit: this.config.global_daily, filter: {} },
+      { scope: 'user', key: context.user_id, limit: context.user_id ? this.config.user_daily : undefined, filter: { user_id: context.user_id } },
+      { scope: 'task', key: context.task, limit: context.task ? this.config.task_daily?.[context.task] : undefined, filter: { task: context.task } }
+    ];
+
+    const exhausted: ExhaustedBudget[] = [];
+    for (const check of checks) {
+      if (!check.limit) continue;
+
+      const spent = await this.repository.getTotals({ from, to, ...check.filter });
+      if (this.isExhausted(check.limit, spent)) {
+        exhausted.push({ scope: check.scope, key: check.key, limit: check.limit, spent });
+      }
+    }
+
+    if (exhausted.length === 0) {
+      return { action: 'allow' };
+    }
+    return this.config.on_exhausted === 'downgrade'
+      ? { action: 'downgrade', provider: this.config.downgrade_provider, exhausted }
+      : { action: 'refuse', exhausted };
+  }
+
+  async recordUsage(usage: { user_id?: string; task?: string; provider: string; tokens_used: number; cost: number }): Promise<void> {
+    await this.repository.record({
+      usage_id: uuidv4(),
+      ...usage,
+      recorded_at: new Date().toISOString()
+    });
+  }
+
+  async getSpendReport(
+    range: { from: string; to: string },
+    groupBy: UsageDimension[],
+    filter: { user_id?: string; task?: string; provider?: string } = {}
+  ): Promise<SpendReport> {
+    const usageFilter = { ...filter, from: range.from, to: range.to };
+    const [totals, breakdown] = await Promise.all([
+      this.repository.getTotals(usageFilter),
+      this.repository.getBreakdown(usageFilter, groupBy)
+    ]);
+
+    return { from: range.from, to: range.to, group_by: groupBy, totals, breakdown };
+  }
+
+  private isExhausted(limit: BudgetLimit, spent: UsageTotals): boolean {
+    return (limit.cost !== undefined && spent.cost >= limit.cost) ||
+      (limit.tokens !== undefined && spent.tokens_used >= limit.tokens);
+  }
+
+  private getDayWindow(now: Date): { from: string; to: string } {
+    const start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    return {
+      from: new Date(start).toISOString(),
+      to: new Date(start + this.DAY_MS).toISOString()
+    };
+  }
+}
+
+export const llmBudgetService = new LLMBudgetService();
+export default LLMBudgetService;
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import type { LLMResponse } from './llm-orchestrator';
+import {
+  LLMCacheEntry,
+  LLMCachePurgeFilter,
+  LLMCacheRepository,
+  llmCacheRepository
+} from '../repositories/llm-cache-repository';
+
+export interface LLMCacheOptions {
+  max_entries: number; // in-memory tier size; least recently used entries are evicted first
+  sweep_interval_ms: number; // how often expired entries are removed from both tiers
+}
+
+export interface LLMCacheStats {
+  hits: number;
+  memory_hits: number;
+  persistent_hits: number;
+  misses: number;
+  hit_rate: number;
+  writes: number;
+  evictions: number;
+  expirations: number;
+  persistent_errors: number;
+  memory_entries: number;
+  max_entries: number;
+}
+
+const DEFAULT_OPTIONS: LLMCacheOptions = {
+  max_entries: 1000,
+  sweep_interval_ms: 60 * 1000
+};
+
+/**
+ * Size-bounded in-memory tier. Relies on Map insertion order: reads re-insert an
+ * entry, so the first key is always the least recently used.
+ */
+export class LRUCacheTier {
+  private entries: Map<string, LLMCacheEntry> = new Map();
+
+  constructor(private maxEntries: number) {}
+
+  get(cacheKey: string, now: number): LLMCacheEntry | null {
+    const entry = this.entries.get(cacheKey);
+    if (!entry) return null;
+
+    this.entries.delete(cacheKey);
+    if (entry.expires_at <= now) return null;
+
+    this.entries.set(cacheKey, entry);
+    return entry;
+  }
+
+  // Returns the number of entries evicted to make room
+  set(entry: LLMCacheEntry): number {
+    this.entries.delete(entry.cache_key);
+    this.entries.set(entry.cache_key, entry);
+
+    let evicted = 0;
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  purge(filter: LLMCachePurgeFilter): number {
+    return this.deleteWhere(entry =>
+      (!filter.prompt_hash || entry.prompt_hash === filter.prompt_hash) &&
+      (!filter.provider || entry.provider === filter.provider)
+    );
+  }
+
+  deleteExpired(now: number): number {
+    return this.deleteWhere(entry => entry.expires_at <= now);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private deleteWhere(predicate: (entry: LLMCacheEntry) => boolean): number {
+    const keys: string[] = [];
+    this.entries.forEach((entry, key) => {
+      if (predicate(entry)) keys.push(key);
+    });
+    keys.forEach(key => this.entries.delete(key));
+    return keys.length;
+  }
+}
+
+/**
+ * Two-tier LLM response cache: a per-process LRU in front of the shared llm_cache
+ * table. Persistent tier failures are logged and treated as misses so a database
+ * problem never fails a generation.
+ */
+export class LLMResponseCache {
+  private memory: LRUCacheTier;
+  private options: LLMCacheOptions;
+  private sweepTimer?: ReturnType<typeof setInterval>;
+  private stats = {
+    memory_hits: 0,
+    persistent_hits: 0,
+    misses: 0,
+    writes: 0,
+    evictions: 0,
+    expirations: 0,
+    persistent_errors: 0
+  };
+
+  constructor(
+    private persistent: LLMCacheRepository | null = llmCacheRepository,
+    options: Partial<LLMCacheOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.memory = new LRUCacheTier(this.options.max_entries);
+    this.startSweepTimer();
+  }
+
+  static hashPrompt(prompt: string): string {
+    return crypto.createHash('sha256').update(prompt).digest('hex');
+  }
+
+  async get(cacheKey: string): Promise<LLMResponse | null> {
+    const now = Date.now();
+    const local = this.memory.get(cacheKey, now);
+    if (local) {
+      this.stats.memory_hits++;
+      return local.response;
+    }
+
+    if (this.persistent) {
+      try {
+        const shared = await this.persistent.get(cacheKey);
+        if (shared && shared.expires_at > now) {
+          this.stats.persistent_hits++;
+          this.stats.evictions += this.memory.set(shared);
+          return shared.response;
+        }
+      } catch (error) {
+        this.stats.persistent_errors++;
+        console.warn('LLM cache read failed:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  async set(cacheKey: string, prompt: string, response: LLMResponse, ttlSeconds: number): Promise<void> {
+    const entry: LLMCacheEntry = {
+      cache_key: cacheKey,
+      prompt_hash: LLMResponseCache.hashPrompt(prompt),
+      provider: response.provider_key,
+      response,
+      expires_at: Date.now() + ttlSeconds * 1000
+    };
+
+    this.stats.writes++;
+    this.stats.evictions += this.memory.set(entry);
+
+    if (this.persistent) {
+      try {
+        await this.persistent.set(entry);
+      } catch (error) {
+        this.stats.persistent_errors++;
+        console.warn('LLM cache write failed:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  // Removes matching entries from both tiers; at least one filter is required
+  async purge(filter: LLMCachePurgeFilter): Promise<{ memory: number; persistent: number }> {
+    if (!filter.prompt_hash && !filter.provider) {
+      throw new Error('purge requires prompt_hash or provider');
+    }
+
+    return {
+      memory: this.memory.purge(filter),
+      persistent: this.persistent ? await this.persistent.purge(filter) : 0
+    };
+  }
+
+  async sweep(): Promise<void> {
+    this.stats.expirations += this.memory.deleteExpired(Date.now());
+    if (this.persistent) {
+      try {
+        await this.persistent.deleteExpired();
+      } catch (error) {
+        this.stats.persistent_errors++;
+        console.warn('LLM cache sweep failed:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  getStats(): LLMCacheStats {
+    const hits = this.stats.memory_hits + this.stats.persistent_hits;
+    const lookups = hits + this.stats.misses;
+    return {
+      hits,
+      ...this.stats,
+      hit_rate: lookups > 0 ? hits / lookups : 0,
+      memory_entries: this.memory.size,
+      max_entries: this.options.max_entries
+    };
+  }
+
+  shutdown(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  private startSweepTimer(): void {
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(console.error);
+    }, this.options.sweep_interval_ms);
+    // Don't keep the process alive just to sweep the cache
+    if (typeof this.sweepTimer === 'object' && typeof this.sweepTimer.unref === 'function') {
+      this.sweepTimer.unref();
+    }
+  }
+}
+
+export const llmResponseCache = new LLMResponseCache();
+export default LLMResponseCache;
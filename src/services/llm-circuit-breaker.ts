@@ -0,0 +1,104 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failure_threshold: number; // consecutive failures before the circuit opens
+  cooldown_ms: number; // how long an open circuit rejects calls before a probe is allowed
+}
+
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: string;
+  last_failure_at?: string;
+}
+
+interface CircuitRecord {
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: number;
+  last_failure_at?: number;
+  probe_in_flight: boolean;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failure_threshold: 5,
+  cooldown_ms: 30 * 1000
+};
+
+/**
+ * Per-provider circuit breaker. After `failure_threshold` consecutive failures a
+ * provider is skipped for `cooldown_ms`; then a single probe call decides whether
+ * it closes again or stays open for another cooldown.
+ */
+export class ProviderCircuitBreaker {
+  private circuits: Map<string, CircuitRecord> = new Map();
+  private options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}, private now: () => number = Date.now) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Whether a call may go to the provider now; claims the probe slot for half-open circuits
+  canRequest(provider: string): boolean {
+    const circuit = this.getCircuit(provider);
+
+    if (circuit.state === 'open' && this.now() - (circuit.opened_at || 0) >= this.options.cooldown_ms) {
+      circuit.state = 'half_open';
+      circuit.probe_in_flight = false;
+    }
+
+    if (circuit.state === 'closed') return true;
+    if (circuit.state === 'half_open' && !circuit.probe_in_flight) {
+      circuit.probe_in_flight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(provider: string): void {
+    this.circuits.set(provider, { state: 'closed', consecutive_failures: 0, probe_in_flight: false });
+  }
+
+  recordFailure(provider: string): void {
+    const circuit = this.getCircuit(provider);
+    const now = this.now();
+
+    circuit.consecutive_failures += 1;
+    circuit.last_failure_at = now;
+    circuit.probe_in_flight = false;
+
+    if (circuit.state === 'half_open' || circuit.consecutive_failures >= this.options.failure_threshold) {
+      circuit.state = 'open';
+      circuit.opened_at = now;
+    }
+  }
+
+  getHealth(provider: string): ProviderHealth {
+    const circuit = this.getCircuit(provider);
+    return {
+      provider,
+      state: circuit.state,
+      consecutive_failures: circuit.consecutive_failures,
+      opened_at: circuit.opened_at ? new Date(circuit.opened_at).toISOString() : undefined,
+      last_failure_at: circuit.last_failure_at ? new Date(circuit.last_failure_at).toISOString() : undefined
+    };
+  }
+
+  reset(provider?: string): void {
+    if (provider) {
+      this.circuits.delete(provider);
+    } else {
+      this.circuits.clear();
+    }
+  }
+
+  private getCircuit(provider: string): CircuitRecord {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = { state: 'closed', consecutive_failures: 0, probe_in_flight: false };
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+}
@@ -0,0 +1,204 @@
+import { CONTEXT_BLOCK_PATTERN } from '../prompts/templates';
+import type { LLMMessage } from './llm-orchestrator';
+
+export interface ContextWindowLimits {
+  provider: string; // provider key, for error reporting
+  context_window: number; // prompt + completion tokens the model accepts
+  max_output_tokens: number; // the provider's completion cap
+}
+
+export interface ContextWindowOptions {
+  max_tokens?: number; // requested completion tokens
+  on_overflow?: 'truncate' | 'reject';
+}
+
+export interface FittedMessages {
+  messages: LLMMessage[]; // markers stripped, context blocks trimmed and old turns dropped as needed
+  prompt_tokens: number;
+  max_tokens: number; // clamped so prompt + completion fit the window
+  trimmed_blocks: string[]; // names of context blocks that were shortened
+  dropped_turns: number; // earliest conversation turns left out
+}
+
+export class PromptTooLargeError extends Error {
+  readonly code = 'PROMPT_TOO_LARGE';
+
+  constructor(
+    public readonly provider: string,
+    public readonly prompt_tokens: number,
+    public readonly available_tokens: number
+  ) {
+    super(`Prompt of ~${prompt_tokens} tokens does not fit provider ${provider} (${available_tokens} available)`);
+    this.name = 'PromptTooLargeError';
+    Object.setPrototypeOf(this, PromptTooLargeError.prototype);
+  }
+}
+
+type TokenCounter = (text: string) => number;
+
+interface PromptSegment {
+  text: string;
+  block?: string; // context block name; plain instruction text otherwise
+}
+
+interface ParsedMessage {
+  role: LLMMessage['role'];
+  segments: PromptSegment[];
+}
+
+const DEFAULT_COMPLETION_TOKENS = 1000;
+const MIN_COMPLETION_TOKENS = 256;
+const MESSAGE_OVERHEAD_TOKENS = 4; // role and separators chat APIs add per message
+// Token counts are estimates, so part of every window is held back
+const SAFETY_MARGIN_RATIO = 0.05;
+const TRUNCATION_NOTE = '\n[... truncated to fit the context window]';
+
+/**
+ * Fits a conversation and its completion into a provider's context window.
+ * Instruction text is never cut: when the prompt is too long, marked context
+ * blocks are trimmed, largest first, then the earliest turns are dropped
+ * (system messages and the latest turn always stay) until the requested
+ * completion fits too. `max_tokens` is then clamped to whatever the window has
+ * left. With `on_overflow: 'reject'` nothing is trimmed and only prompts that
+ * can't fit at all are refused.
+ */
+export function fitMessagesToContextWindow(
+  messages: LLMMessage[],
+  limits: ContextWindowLimits,
+  countTokens: TokenCounter,
+  options: ContextWindowOptions = {}
+): FittedMessages {
+  const desiredCompletion = Math.min(options.max_tokens || DEFAULT_COMPLETION_TOKENS, limits.max_output_tokens);
+  const usableWindow = Math.floor(limits.context_window * (1 - SAFETY_MARGIN_RATIO));
+  // Trim context to leave room for the full completion; refuse only when not even a minimal one fits
+  const trimTarget = usableWindow - desiredCompletion;
+  const promptLimit = usableWindow - Math.min(desiredCompletion, MIN_COMPLETION_TOKENS);
+
+  const parsed: ParsedMessage[] = messages.map(message => ({ role: message.role, segments: parseSegments(message.content) }));
+  const countPrompt = () => parsed.reduce(
+    (total, message) => total + countTokens(joinSegments(message.segments)) + MESSAGE_OVERHEAD_TOKENS,
+    0
+  );
+  const trimmedBlocks: string[] = [];
+  let droppedTurns = 0;
+  let promptTokens = countPrompt();
+
+  if (promptTokens > trimTarget && options.on_overflow !== 'reject') {
+    const blocks = parsed
+      .reduce((all: PromptSegment[], message) => all.concat(message.segments), [])
+      .filter(segment => segment.block !== undefined)
+      .map(segment => ({ segment, tokens: countTokens(segment.text) }))
+      .sort((a, b) => b.tokens - a.tokens);
+
+    for (const { segment, tokens } of blocks) {
+      const overflow = promptTokens - trimTarget;
+      if (overflow <= 0) break;
+
+      segment.text = shrinkBlock(segment.text, Math.max(0, tokens - overflow), countTokens);
+      trimmedBlocks.push(segment.block!);
+      promptTokens = countPrompt();
+    }
+
+    while (promptTokens > trimTarget) {
+      const dropped = dropOldestTurn(parsed);
+      if (dropped === 0) break;
+
+      droppedTurns += dropped;
+      promptTokens = countPrompt();
+    }
+  }
+
+  if (promptTokens > promptLimit) {
+    throw new PromptTooLargeError(limits.provider, promptTokens, promptLimit);
+  }
+
+  return {
+    messages: parsed.map(message => ({ role: message.role, content: joinSegments(message.segments) })),
+    prompt_tokens: promptTokens,
+    max_tokens: Math.min(desiredCompletion, usableWindow - promptTokens),
+    trimmed_blocks: trimmedBlocks,
+    dropped_turns: droppedTurns
+  };
+}
+
+// Drops the earliest non-system turn, plus any assistant turns it leaves at the front
+function dropOldestTurn(messages: ParsedMessage[]): number {
+  let dropped = 0;
+  for (;;) {
+    const index = messages.findIndex(message => message.role !== 'system');
+    if (index === -1 || index === messages.length - 1) return dropped;
+    if (dropped > 0 && messages[index].role === 'user') return dropped;
+
+    messages.splice(index, 1);
+    dropped++;
+  }
+}
+
+function parseSegments(prompt: string): PromptSegment[] {
+  const segments: PromptSegment[] = [];
+  const pattern = new RegExp(CONTEXT_BLOCK_PATTERN.source, 'g');
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(prompt)) !== null) {
+    segments.push({ text: prompt.slice(position, match.index) });
+    segments.push({ text: match[2], block: match[1] });
+    position = match.index + match[0].length;
+  }
+  segments.push({ text: prompt.slice(position) });
+
+  return segments;
+}
+
+function joinSegments(segments: PromptSegment[]): string {
+  return segments.map(segment => segment.text).join('');
+}
+
+/**
+ * Shortens a context block to about `targetTokens`. JSON arrays (e.g. existing
+ * events) lose trailing items and stay valid JSON; other text keeps its leading
+ * lines, cutting mid-line only when a single line is too long.
+ */
+function shrinkBlock(text: string, targetTokens: number, countTokens: TokenCounter): string {
+  const budget = targetTokens - countTokens(TRUNCATION_NOTE);
+  if (budget <= 0) return TRUNCATION_NOTE.trim();
+
+  const items = parseJsonArray(text);
+  if (items) {
+    const kept = longestFitting(items.length, count => countTokens(JSON.stringify(items.slice(0, count))) <= targetTokens);
+    return JSON.stringify(items.slice(0, kept));
+  }
+
+  const lines = text.split('\n');
+  const keptLines = longestFitting(lines.length, count => countTokens(lines.slice(0, count).join('\n')) <= budget);
+  if (keptLines > 0) {
+    return lines.slice(0, keptLines).join('\n') + TRUNCATION_NOTE;
+  }
+
+  const keptChars = longestFitting(lines[0].length, count => countTokens(lines[0].slice(0, count)) <= budget);
+  return lines[0].slice(0, keptChars) + TRUNCATION_NOTE;
+}
+
+function parseJsonArray(text: string): unknown[] | null {
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Largest n in [0, max] for which fits(n) holds, assuming fits is monotonic
+function longestFitting(max: number, fits: (count: number) => boolean): number {
+  let low = 0;
+  let high = max;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (fits(mid)) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
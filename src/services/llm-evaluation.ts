@@ -0,0 +1,429 @@
+import { readFileSync } from 'fs';
+import { PROMPT_ROUTING, isPromptTask } from '../prompts/templates';
+import LLMOrchestrator, { LLMRequest, LLMResponse } from './llm-orchestrator';
+import { providerAdapters } from './llm-providers/registry';
+import { LLMTransport, createLLMTransport } from './llm-providers/transport';
+import { ProviderCircuitBreaker } from './llm-circuit-breaker';
+import { LLMResponseCache } from './llm-cache';
+import { LLMBudgetService } from './llm-budget';
+import { LLMMetrics } from './llm-metrics';
+import { GroundingChecker, groundingChecker } from './llm-grounding';
+import { RoutingOverride, TaskRouter, UnknownTaskError } from './llm-task-routing';
+import { StructuredOutputError } from './llm-structured-output';
+import { InMemoryLLMUsageRepository } from '../repositories/llm-usage-repository';
+
+export type EvaluationMode = 'replay' | 'fake';
+
+export type EvaluationCheck = 'valid_json' | 'required_fields' | 'within_budget' | 'day_count' | 'known_pois';
+
+export interface EvaluationExpectations {
+  required_fields?: string[]; // dotted paths into the JSON output, e.g. "days.0.activities"
+  budget_per_person?: number; // activity costs per person must add up to no more than this
+  travellers?: number; // splits total_cost when activities have no per-person cost
+  days?: number;
+  known_pois?: boolean; // every place an activity names must be in the POI catalog
+}
+
+export interface EvaluationCase {
+  case_id: string;
+  task: string; // PROMPT_ROUTING key
+  variables: Record<string, unknown>;
+  expect: EvaluationExpectations;
+}
+
+// What's being compared; unset fields fall back to the task's route
+export interface EvaluationVariant {
+  name: string;
+  provider?: LLMRequest['provider'];
+  model?: string;
+  template?: string; // PROMPT_TEMPLATES key
+}
+
+export interface CheckResult {
+  check: EvaluationCheck;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface CaseResult {
+  case_id: string;
+  task: string;
+  variant: string;
+  score: number; // share of checks passed; 0 when the call failed
+  checks: CheckResult[];
+  provider?: string; // key of the provider that answered
+  tokens_used: number;
+  cost: number;
+  error?: string;
+}
+
+export interface VariantSummary {
+  variant: EvaluationVariant;
+  cases: number;
+  mean_score: number;
+  pass_rates: Partial<Record<EvaluationCheck, number>>; // over the cases the check applied to
+  errors: number;
+  tokens_used: number;
+  cost: number;
+}
+
+export interface CaseComparison {
+  case_id: string;
+  task: string;
+  baseline: CaseResult;
+  candidate: CaseResult;
+  delta: number; // candidate score minus baseline score
+}
+
+export interface EvaluationReport {
+  mode: EvaluationMode;
+  baseline: VariantSummary;
+  candidate: VariantSummary;
+  cases: CaseComparison[];
+  regressions: string[]; // case ids the candidate scored lower on
+  improvements: string[];
+  generated_at: string;
+}
+
+const EVALUATION_MODES: EvaluationMode[] = ['replay', 'fake'];
+const CHECKS: EvaluationCheck[] = ['valid_json', 'required_fields', 'within_budget', 'day_count', 'known_pois'];
+
+// An itinerary as the generation template asks for it; model output may leave any of it out
+export interface ItineraryActivity {
+  title?: string;
+  cost_per_person?: number;
+  location?: { address?: string };
+}
+
+export interface ItineraryDay {
+  date?: string;
+  activities?: ItineraryActivity[];
+}
+
+export interface ItineraryOutput {
+  days?: ItineraryDay[];
+  total_cost?: number;
+}
+
+// The parts of docs/sample-itineraries.json that cases are built from
+export interface SampleTripProfile {
+  duration?: number;
+  party_composition?: { adults?: number; children?: number; infants?: number; elderly?: number };
+  budget_per_person?: number;
+  preferences?: string[];
+  constraints?: Record<string, unknown>;
+}
+
+export interface SampleItinerary {
+  name: string;
+  description?: string;
+  trip_profile?: SampleTripProfile;
+  itinerary?: ItineraryOutput & { trip_id?: string };
+}
+
+export interface SampleItinerariesDocument {
+  sample_itineraries?: SampleItinerary[];
+}
+
+/**
+ * Turns docs/sample-itineraries.json into cases: each sample trip profile is run
+ * through itinerary generation (expecting its budget and length) and through the
+ * minimal-input follow-up prompt.
+ */
+export function casesFromSampleItineraries(data: SampleItinerariesDocument): EvaluationCase[] {
+  const samples = Array.isArray(data?.sample_itineraries) ? data.sample_itineraries : [];
+  const cases: EvaluationCase[] = [];
+
+  samples.forEach((sample, index) => {
+    const profile: SampleTripProfile = sample.trip_profile || {};
+    const party = profile.party_composition || {};
+    const days = sample.itinerary?.days || [];
+    const caseId = sample.itinerary?.trip_id || `sample_${index + 1}`;
+
+    cases.push({
+      case_id: `${caseId}:itinerary.generate`,
+      task: 'itinerary.generate',
+      variables: {
+        destination: 'Goa',
+        start_date: days.length > 0 ? days[0].date || '' : '',
+        end_date: days.length > 0 ? days[days.length - 1].date || '' : '',
+        adults: party.adults || 0,
+        children: party.children || 0,
+        infants: party.infants || 0,
+        budget_per_person: profile.budget_per_person,
+        preferences: profile.preferences || [],
+        constraints: profile.constraints || {}
+      },
+      expect: {
+        required_fields: ['days', 'total_cost'],
+        budget_per_person: profile.budget_per_person,
+        travellers: (party.adults || 0) + (party.children || 0) + (party.elderly || 0),
+        days: profile.duration,
+        known_pois: true
+      }
+    });
+
+    cases.push({
+      case_id: `${caseId}:itinerary.create`,
+      task: 'itinerary.create',
+      variables: {
+        message: sample.description || sample.name,
+        destination: 'Goa',
+        context: profile
+      },
+      expect: { required_fields: ['questions'] }
+    });
+  });
+
+  return cases;
+}
+
+// A JSON array of cases, or the sample itineraries document
+export function loadEvaluationCases(file: string = 'docs/sample-itineraries.json'): EvaluationCase[] {
+  const data = JSON.parse(readFileSync(file, 'utf8'));
+  return Array.isArray(data) ? data : casesFromSampleItineraries(data);
+}
+
+/**
+ * An orchestrator that can't reach a live provider: replay answers from recorded
+ * fixtures (LLM_FIXTURES_DIR), fake from the scripted provider (LLM_FAKE_SCRIPT).
+ * Nothing is cached and usage stays out of the shared ledger and metrics.
+ */
+export function createEvaluationOrchestrator(mode: EvaluationMode, transport?: LLMTransport): LLMOrchestrator {
+  if (!EVALUATION_MODES.includes(mode)) {
+    throw new Error(`Evaluations run offline; mode must be one of ${EVALUATION_MODES.join(', ')}`);
+  }
+
+  const router = new TaskRouter();
+  const orchestrator = new LLMOrchestrator(
+    providerAdapters,
+    new ProviderCircuitBreaker(),
+    new LLMResponseCache(null),
+    new LLMBudgetService({ on_exhausted: 'refuse', downgrade_provider: 'local' }, new InMemoryLLMUsageRepository()),
+    groundingChecker,
+    transport || createLLMTransport(mode),
+    new LLMMetrics(),
+    router
+  );
+
+  const uncached: Record<string, RoutingOverride> = {};
+  Object.keys(PROMPT_ROUTING).forEach(task => {
+    uncached[task] = { cache_ttl: 0 };
+  });
+  router.setOverrides(uncached);
+  return orchestrator;
+}
+
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Runs prompt templates over a dataset and scores each output with rule-based
+ * checks, so a template or provider change can be compared against the current
+ * one before it ships. JSON is scored as the model first returned it: repairs
+ * would hide a template that produces broken output.
+ */
+export class LLMEvaluationRunner {
+  constructor(
+    private mode: EvaluationMode = 'replay',
+    private orchestrator: LLMOrchestrator = createEvaluationOrchestrator(mode),
+    private grounding: GroundingChecker = groundingChecker
+  ) {}
+
+  async evaluate(cases: EvaluationCase[], variant: EvaluationVariant): Promise<CaseResult[]> {
+    const results: CaseResult[] = [];
+    for (const evaluationCase of cases) {
+      results.push(await this.evaluateCase(evaluationCase, variant));
+    }
+    return results;
+  }
+
+  async compare(cases: EvaluationCase[], baseline: EvaluationVariant, candidate: EvaluationVariant): Promise<EvaluationReport> {
+    const baselineResults = await this.evaluate(cases, baseline);
+    const candidateResults = await this.evaluate(cases, candidate);
+
+    const comparisons = cases.map((evaluationCase, index) => ({
+      case_id: evaluationCase.case_id,
+      task: evaluationCase.task,
+      baseline: baselineResults[index],
+      candidate: candidateResults[index],
+      delta: Math.round((candidateResults[index].score - baselineResults[index].score) * 100) / 100
+    }));
+
+    return {
+      mode: this.mode,
+      baseline: this.summarize(baseline, baselineResults),
+      candidate: this.summarize(candidate, candidateResults),
+      cases: comparisons,
+      regressions: comparisons.filter(comparison => comparison.delta < 0).map(comparison => comparison.case_id),
+      improvements: comparisons.filter(comparison => comparison.delta > 0).map(comparison => comparison.case_id),
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  private async evaluateCase(evaluationCase: EvaluationCase, variant: EvaluationVariant): Promise<CaseResult> {
+    const result: CaseResult = {
+      case_id: evaluationCase.case_id,
+      task: evaluationCase.task,
+      variant: variant.name,
+      score: 0,
+      checks: [],
+      tokens_used: 0,
+      cost: 0
+    };
+
+    // Cases are loaded from files, so their tasks are only known once checked
+    const task = evaluationCase.task;
+    if (!isPromptTask(task)) {
+      result.error = new UnknownTaskError(task).message;
+      return result;
+    }
+
+    let response: LLMResponse;
+    let data: unknown;
+    try {
+      ({ data, response } = await this.orchestrator.runTask(task, evaluationCase.variables, {
+        provider: variant.provider,
+        model: variant.model,
+        template: variant.template,
+        trace_id: `eval_${variant.name}_${evaluationCase.case_id}`,
+        max_repairs: 0
+      }));
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        result.checks.push({ check: 'valid_json', passed: false, detail: error.errors.slice(0, 3).join('; ') });
+        return result;
+      }
+      result.error = error instanceof Error ? error.message : String(error);
+      return result;
+    }
+
+    result.provider = response.provider_key;
+    result.tokens_used = response.tokens_used;
+    result.cost = response.cost;
+
+    if (PROMPT_ROUTING[task].output === 'json') {
+      const validJson: CheckResult = { check: 'valid_json', passed: true };
+      result.checks = [validJson].concat(await this.checkOutput(data, evaluationCase.expect));
+    }
+
+    const passed = result.checks.filter(check => check.passed).length;
+    result.score = result.checks.length > 0 ? Math.round((passed / result.checks.length) * 100) / 100 : 1;
+    return result;
+  }
+
+  private async checkOutput(data: unknown, expect: EvaluationExpectations): Promise<CheckResult[]> {
+    const checks: CheckResult[] = [];
+    // Only the shape is assumed; every field is still checked before use
+    const output: ItineraryOutput = data !== null && typeof data === 'object' ? data : {};
+    const days = Array.isArray(output.days) ? output.days : [];
+    const activities = days.reduce(
+      (all: ItineraryActivity[], day) => all.concat(Array.isArray(day?.activities) ? day.activities : []),
+      []
+    );
+
+    if (expect.required_fields && expect.required_fields.length > 0) {
+      const missing = expect.required_fields.filter(path => {
+        const value = getPath(output, path);
+        return value === undefined || value === null || value === '';
+      });
+      checks.push({ check: 'required_fields', passed: missing.length === 0, detail: missing.length > 0 ? `missing ${missing.join(', ')}` : undefined });
+    }
+
+    if (expect.budget_per_person !== undefined) {
+      const perPersonCosts = activities
+        .map(activity => activity?.cost_per_person)
+        .filter((cost): cost is number => typeof cost === 'number');
+      const perPerson = perPersonCosts.length > 0
+        ? perPersonCosts.reduce((sum, cost) => sum + cost, 0)
+        : typeof output.total_cost === 'number' && expect.travellers ? output.total_cost / expect.travellers : undefined;
+
+      checks.push(perPerson === undefined
+        ? { check: 'within_budget', passed: false, detail: 'no costs in the output' }
+        : {
+          check: 'within_budget',
+          passed: perPerson <= expect.budget_per_person,
+          detail: `${Math.round(perPerson)} per person against a budget of ${expect.budget_per_person}`
+        });
+    }
+
+    if (expect.days !== undefined) {
+      checks.push({ check: 'day_count', passed: days.length === expect.days, detail: `${days.length} of ${expect.days} days` });
+    }
+
+    if (expect.known_pois) {
+      const places = activities
+        .map(activity => [activity?.title, activity?.location?.address].filter(text => typeof text === 'string').join('. '))
+        .filter(text => text.length > 0);
+      const report = await this.grounding.check(places.join('\n'));
+      // Without a catalog there's nothing to check against, which shouldn't count against the template
+      if (report.catalog_available) {
+        const unknown = report.flagged.filter(claim => claim.type === 'place').map(claim => claim.text);
+        checks.push({ check: 'known_pois', passed: unknown.length === 0, detail: unknown.length > 0 ? `not in the catalog: ${unknown.join(', ')}` : undefined });
+      }
+    }
+
+    return checks;
+  }
+
+  private summarize(variant: EvaluationVariant, results: CaseResult[]): VariantSummary {
+    const passRates: VariantSummary['pass_rates'] = {};
+    CHECKS.forEach(name => {
+      const applied = results.reduce((all: CheckResult[], result) => all.concat(result.checks.filter(check => check.check === name)), []);
+      if (applied.length > 0) {
+        passRates[name] = Math.round((applied.filter(check => check.passed).length / applied.length) * 100) / 100;
+      }
+    });
+
+    return {
+      variant,
+      cases: results.length,
+      mean_score: results.length > 0 ? Math.round((results.reduce((sum, result) => sum + result.score, 0) / results.length) * 100) / 100 : 0,
+      pass_rates: passRates,
+      errors: results.filter(result => result.error).length,
+      tokens_used: results.reduce((sum, result) => sum + result.tokens_used, 0),
+      cost: results.reduce((sum, result) => sum + result.cost, 0)
+    };
+  }
+}
+
+// Markdown, for a PR description or CI log
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const { baseline, candidate } = report;
+  const rate = (value?: number) => (value === undefined ? 'n/a' : `${Math.round(value * 100)}%`);
+  const lines = [
+    `## LLM evaluation: ${baseline.variant.name} vs ${candidate.variant.name} (${report.mode})`,
+    '',
+    `| | ${baseline.variant.name} | ${candidate.variant.name} |`,
+    '|---|---|---|',
+    `| mean score | ${baseline.mean_score} | ${candidate.mean_score} |`
+  ];
+
+  CHECKS.forEach(check => {
+    if (baseline.pass_rates[check] !== undefined || candidate.pass_rates[check] !== undefined) {
+      lines.push(`| ${check} | ${rate(baseline.pass_rates[check])} | ${rate(candidate.pass_rates[check])} |`);
+    }
+  });
+  lines.push(`| errors | ${baseline.errors} | ${candidate.errors} |`);
+  lines.push(`| tokens | ${baseline.tokens_used} | ${candidate.tokens_used} |`);
+
+  lines.push('', `| case | ${baseline.variant.name} | ${candidate.variant.name} | delta | ${candidate.variant.name} failures |`, '|---|---|---|---|---|');
+  report.cases.forEach(comparison => {
+    const failed = comparison.candidate.error || comparison.candidate.checks
+      .filter(check => !check.passed)
+      .map(check => check.detail ? `${check.check} (${check.detail})` : check.check)
+      .join('; ');
+    lines.push(`| ${comparison.case_id} | ${comparison.baseline.score} | ${comparison.candidate.score} | ${comparison.delta > 0 ? '+' : ''}${comparison.delta} | ${failed} |`);
+  });
+
+  if (report.regressions.length > 0) {
+    lines.push('', `Regressions: ${report.regressions.join(', ')}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export default LLMEvaluationRunner;
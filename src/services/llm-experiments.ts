@@ -0,0 +1,410 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import { auditLogger } from '../utils/audit-logger';
+import { PROMPT_TEMPLATES, PromptTask, PromptTaskResult, getPromptRoute } from '../prompts/templates';
+import LLMOrchestrator, {
+  LLMRequest,
+  LLMResponse,
+  StructuredGenerationOptions,
+  StructuredResponse,
+  TaskResult,
+  TaskRunOptions,
+  llmOrchestrator
+} from './llm-orchestrator';
+import {
+  ExperimentOutcome,
+  ExperimentStatus,
+  ExperimentUnitIds,
+  ExperimentUnitType,
+  ExperimentVariant,
+  LLMExperiment,
+  LLMExperimentRepository,
+  OutcomeSignal,
+  VariantTotals,
+  llmExperimentRepository
+} from '../repositories/llm-experiment-repository';
+import type { JsonSchema } from '../utils/json-schema';
+import { isAdmin } from '../middleware/auth';
+import type { TripLifecycle } from './trip-lifecycle';
+
+export const OUTCOME_SIGNALS: OutcomeSignal[] = ['itinerary_accepted', 'itinerary_edited', 'booked'];
+
+const EXPERIMENT_STATUSES: ExperimentStatus[] = ['running', 'paused', 'concluded'];
+const UNIT_TYPES: ExperimentUnitType[] = ['user', 'trip'];
+const KEY_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,99}$/;
+
+export type ExperimentDefinition = Omit<LLMExperiment, 'created_at' | 'updated_at'>;
+
+// Attached to results an experiment variant served
+export interface ServedVariant {
+  experiment_key: string;
+  variant_key: string;
+}
+
+export interface VariantAssignment {
+  experiment: LLMExperiment;
+  variant: ExperimentVariant;
+  unit_id: string;
+}
+
+export interface VariantResults extends VariantTotals {
+  weight: number;
+  provider?: string;
+  model?: string;
+  template?: string;
+  rates: Partial<Record<OutcomeSignal, number>>; // share of exposed units that sent each signal
+}
+
+export interface ExperimentResults {
+  experiment: LLMExperiment;
+  variants: VariantResults[];
+}
+
+// An outcome signal a caller may not report, e.g. one recorded elsewhere
+export class OutcomeSignalError extends Error {
+  readonly code = 'INVALID_OUTCOME_SIGNAL';
+
+  constructor(public readonly signal: unknown, public readonly allowed: OutcomeSignal[]) {
+    super(`signal must be one of: ${allowed.join(', ')}`);
+    this.name = 'OutcomeSignalError';
+    Object.setPrototypeOf(this, OutcomeSignalError.prototype);
+  }
+}
+
+export class ExperimentConfigError extends Error {
+  readonly code = 'INVALID_EXPERIMENT';
+
+  constructor(public readonly errors: string[]) {
+    super(`Invalid experiment: ${errors.join('; ')}`);
+    this.name = 'ExperimentConfigError';
+    Object.setPrototypeOf(this, ExperimentConfigError.prototype);
+  }
+}
+
+/**
+ * Picks a unit's variant from a hash of the experiment key and unit id, so the
+ * same user (or trip) always lands in the same variant without storing
+ * assignments. Changing the weights moves only the units near the boundaries.
+ */
+export function assignVariant(experiment: Pick<LLMExperiment, 'experiment_key' | 'variants'>, unitId: string): ExperimentVariant {
+  const hash = crypto.createHash('sha256').update(`${experiment.experiment_key}:${unitId}`).digest('hex');
+  const point = parseInt(hash.substring(0, 8), 16) / 0x100000000;
+  const total = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  let cumulative = 0;
+  for (const variant of experiment.variants) {
+    cumulative += variant.weight / total;
+    if (point < cumulative) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+/**
+ * A/B experiments on top of the orchestrator. A running experiment on a task
+ * serves each user or trip one variant (provider, model or template), records
+ * which variant answered each request, and attributes later outcome signals
+ * (itinerary accepted, edited, booked) to that variant for comparison.
+ */
+export class LLMExperiments {
+  constructor(
+    private repository: LLMExperimentRepository = llmExperimentRepository,
+    private orchestrator: LLMOrchestrator = llmOrchestrator
+  ) {}
+
+  async saveExperiment(definition: ExperimentDefinition): Promise<LLMExperiment> {
+    await this.validate(definition);
+
+    const existing = await this.repository.findExperiment(definition.experiment_key);
+    const now = new Date().toISOString();
+    return this.repository.saveExperiment({
+      experiment_key: definition.experiment_key,
+      task: definition.task,
+      unit: definition.unit,
+      status: definition.status,
+      variants: definition.variants,
+      description: definition.description,
+      created_at: existing ? existing.created_at : now,
+      updated_at: now
+    });
+  }
+
+  async listExperiments(): Promise<LLMExperiment[]> {
+    return this.repository.listExperiments();
+  }
+
+  async getResults(experimentKey: string): Promise<ExperimentResults | null> {
+    const experiment = await this.repository.findExperiment(experimentKey);
+    if (!experiment) {
+      return null;
+    }
+
+    const totals = await this.repository.getVariantTotals(experimentKey);
+    const variants = experiment.variants.map(variant => {
+      const variantTotals = totals.find(row => row.variant_key === variant.variant_key) ||
+        { variant_key: variant.variant_key, exposures: 0, units: 0, cost: 0, signals: {} };
+      const rates: VariantResults['rates'] = {};
+      OUTCOME_SIGNALS.forEach(signal => {
+        rates[signal] = variantTotals.units > 0 ? (variantTotals.signals[signal] || 0) / variantTotals.units : 0;
+      });
+      return { ...variant, ...variantTotals, rates };
+    });
+
+    return { experiment, variants };
+  }
+
+  // The running experiment on `task`, if any, and the unit's variant in it
+  async assign(task: string | undefined, unit: ExperimentUnitIds): Promise<VariantAssignment | null> {
+    if (!task) {
+      return null;
+    }
+
+    const [experiment] = await this.repository.listExperiments({ task, status: 'running' });
+    const unitId = experiment && (experiment.unit === 'trip' ? unit.trip_id : unit.user_id);
+    if (!experiment || !unitId) {
+      return null;
+    }
+
+    return { experiment, variant: assignVariant(experiment, unitId), unit_id: unitId };
+  }
+
+  async generateStructured<T>(
+    request: LLMRequest,
+    schema: JsonSchema,
+    unit: ExperimentUnitIds,
+    options: StructuredGenerationOptions = {}
+  ): Promise<StructuredResponse<T> & { experiment?: ServedVariant }> {
+    const assignment = await this.assign(request.task, unit);
+    const variantRequest = assignment
+      ? { ...request, provider: (assignment.variant.provider as LLMRequest['provider']) || request.provider, model: assignment.variant.model || request.model }
+      : request;
+
+    const result = await this.orchestrator.generateStructured<T>(variantRequest, schema, options);
+    return { ...result, experiment: await this.recordExposure(assignment, result.response, request.trace_id) };
+  }
+
+  async runTask<K extends PromptTask, T = PromptTaskResult<K>>(
+    task: K,
+    variables: Record<string, unknown>,
+    unit: ExperimentUnitIds,
+    options: TaskRunOptions = {}
+  ): Promise<TaskResult<T> & { experiment?: ServedVariant }> {
+    const assignment = await this.assign(task, unit);
+    const variantOptions: TaskRunOptions = assignment
+      ? {
+        ...options,
+        provider: (assignment.variant.provider as LLMRequest['provider']) || options.provider,
+        model: assignment.variant.model || options.model,
+        template: assignment.variant.template || options.template
+      }
+      : options;
+
+    const result = await this.orchestrator.runTask<K, T>(task, variables, variantOptions);
+    return { ...result, experiment: await this.recordExposure(assignment, result.response, options.trace_id) };
+  }
+
+  // Credits the signal to the variant each experiment last served this user or trip
+  async recordOutcome(signal: OutcomeSignal, unit: ExperimentUnitIds, traceId?: string): Promise<ExperimentOutcome[]> {
+    const exposures = await this.repository.findLatestExposures(unit);
+    const outcomes = exposures.map(exposure => ({
+      outcome_id: uuidv4(),
+      experiment_key: exposure.experiment_key,
+      variant_key: exposure.variant_key,
+      unit_type: exposure.unit_type,
+      unit_id: exposure.unit_id,
+      signal,
+      trace_id: traceId,
+      recorded_at: new Date().toISOString()
+    }));
+
+    for (const outcome of outcomes) {
+      await this.repository.recordOutcome(outcome);
+    }
+    return outcomes;
+  }
+
+  // Booking is the outcome experiments on a trip's questions and itinerary are judged by; returns the unsubscribe
+  recordBookings(lifecycle: TripLifecycle): () => void {
+    return lifecycle.onTransition(async (trip, transition, context) => {
+      if (transition.to === 'booked') {
+        await this.recordOutcome('booked', { user_id: trip.user_id, trip_id: trip.trip_id }, context.trace_id);
+      }
+    });
+  }
+
+  // Admin: every experiment with its per-variant exposures, cost and outcome rates
+  async handleListExperiments(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    if (!this.requireAdmin(req, res, traceId)) return;
+
+    try {
+      const experiments = await this.listExperiments();
+      const results = [];
+      for (const experiment of experiments) {
+        results.push(await this.getResults(experiment.experiment_key));
+      }
+      res.json({ experiments: results });
+    } catch (error) {
+      res.status(500).json({
+        error: {
+          code: 'EXPERIMENT_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          trace_id: traceId
+        }
+      });
+    }
+  }
+
+  // Admin: create or update the experiment named in the path; pausing or concluding stops assignment
+  async handleSaveExperiment(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    if (!this.requireAdmin(req, res, traceId)) return;
+
+    try {
+      const { task, unit, status, variants, description } = req.body || {};
+      const experiment = await this.saveExperiment({
+        experiment_key: req.params.experimentKey,
+        task,
+        unit,
+        status,
+        variants,
+        description
+      });
+
+      await auditLogger.log({
+        trace_id: traceId,
+        action: 'llm.experiment_saved',
+        entity_type: 'llm_experiment',
+        entity_id: experiment.experiment_key,
+        user_id: req.user!.id,
+        metadata: { task: experiment.task, status: experiment.status, variants: experiment.variants.map(variant => variant.variant_key) }
+      });
+
+      res.json(experiment);
+    } catch (error) {
+      if (error instanceof ExperimentConfigError) {
+        res.status(400).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            trace_id: traceId,
+            details: error.errors
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: {
+          code: 'EXPERIMENT_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          trace_id: traceId
+        }
+      });
+    }
+  }
+
+  private async recordExposure(
+    assignment: VariantAssignment | null,
+    response: LLMResponse,
+    traceId?: string
+  ): Promise<ServedVariant | undefined> {
+    if (!assignment) {
+      return undefined;
+    }
+
+    // Losing an exposure skews the comparison slightly; failing the user's request would be worse
+    try {
+      await this.repository.recordExposure({
+        exposure_id: uuidv4(),
+        experiment_key: assignment.experiment.experiment_key,
+        variant_key: assignment.variant.variant_key,
+        unit_type: assignment.experiment.unit,
+        unit_id: assignment.unit_id,
+        provider: response.provider_key,
+        tokens_used: response.cached ? 0 : response.tokens_used,
+        cost: response.cached ? 0 : response.cost,
+        trace_id: traceId,
+        recorded_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Failed to record experiment exposure:', error);
+    }
+
+    return { experiment_key: assignment.experiment.experiment_key, variant_key: assignment.variant.variant_key };
+  }
+
+  private async validate(definition: ExperimentDefinition): Promise<void> {
+    const errors: string[] = [];
+    const providers = this.orchestrator.getProviderKeys();
+
+    if (typeof definition.experiment_key !== 'string' || !KEY_PATTERN.test(definition.experiment_key)) {
+      errors.push('experiment_key must be lowercase letters, digits, ".", "_" or "-"');
+    }
+    if (typeof definition.task !== 'string' || !getPromptRoute(definition.task)) {
+      errors.push(`unknown task '${definition.task}'`);
+    }
+    if (!UNIT_TYPES.includes(definition.unit)) {
+      errors.push(`unit must be one of ${UNIT_TYPES.join(', ')}`);
+    }
+    if (!EXPERIMENT_STATUSES.includes(definition.status)) {
+      errors.push(`status must be one of ${EXPERIMENT_STATUSES.join(', ')}`);
+    }
+
+    const variants = Array.isArray(definition.variants) ? definition.variants : [];
+    if (variants.length < 2) {
+      errors.push('at least two variants are required');
+    }
+    variants.forEach((variant, index) => {
+      const name = variant && variant.variant_key ? `variant '${variant.variant_key}'` : `variant ${index}`;
+      if (!variant || typeof variant.variant_key !== 'string' || !KEY_PATTERN.test(variant.variant_key)) {
+        errors.push(`${name}: variant_key must be lowercase letters, digits, ".", "_" or "-"`);
+        return;
+      }
+      if (variants.filter(other => other && other.variant_key === variant.variant_key).length > 1) {
+        errors.push(`${name}: variant_key is used more than once`);
+      }
+      if (typeof variant.weight !== 'number' || !(variant.weight > 0)) {
+        errors.push(`${name}: weight must be a positive number`);
+      }
+      if (variant.provider !== undefined && !providers.includes(variant.provider)) {
+        errors.push(`${name}: unknown provider '${variant.provider}'`);
+      }
+      if (variant.model !== undefined && (typeof variant.model !== 'string' || !variant.provider)) {
+        errors.push(`${name}: a model needs a provider`);
+      }
+      if (variant.template !== undefined && !(variant.template in PROMPT_TEMPLATES)) {
+        errors.push(`${name}: unknown template '${variant.template}'`);
+      }
+    });
+
+    // Requests on a task are served by at most one experiment
+    if (definition.status === 'running' && errors.length === 0) {
+      const running = await this.repository.listExperiments({ task: definition.task, status: 'running' });
+      const other = running.find(experiment => experiment.experiment_key !== definition.experiment_key);
+      if (other) {
+        errors.push(`experiment '${other.experiment_key}' is already running on ${definition.task}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ExperimentConfigError(errors);
+    }
+  }
+
+  private requireAdmin(req: Request, res: Response, traceId: string): boolean {
+    if (isAdmin(req.user)) return true;
+
+    res.status(req.user ? 403 : 401).json({
+      error: {
+        code: req.user ? 'FORBIDDEN' : 'UNAUTHORIZED',
+        message: req.user ? 'Admin access required' : 'Authentication required',
+        trace_id: traceId
+      }
+    });
+    return false;
+  }
+}
+
+export const llmExperiments = new LLMExperiments();
+export default LLMExperiments;
@@ -0,0 +1,355 @@
+import { CatalogEntry, PoiCatalogRepository, poiCatalogRepository } from '../repositories/poi-catalog-repository';
+
+export type GroundingPolicy = 'reject' | 'annotate' | 'regenerate';
+export type ClaimType = 'place' | 'price' | 'date' | 'opening_hours';
+export type ClaimStatus = 'supported' | 'contradicted' | 'unverified';
+
+export interface GroundedClaim {
+  type: ClaimType;
+  text: string; // as it appears in the output
+  status: ClaimStatus;
+  entity_id?: string;
+  entity_name?: string;
+  expected?: string; // what the catalog says, for contradicted claims
+}
+
+export interface GroundingReport {
+  score: number; // supported / (supported + flagged); 1 when nothing was checkable
+  claims: GroundedClaim[];
+  flagged: GroundedClaim[]; // contradicted claims and places missing from the catalog
+  catalog_available: boolean; // false when the catalog couldn't be loaded and nothing was checked
+}
+
+export interface GroundingOptions {
+  price_tolerance: number; // fraction a quoted price may stray outside the catalog range
+  hours_tolerance_minutes: number;
+  catalog_ttl_ms: number; // how long a loaded catalog is reused
+}
+
+export class GroundingError extends Error {
+  readonly code = 'UNGROUNDED_OUTPUT';
+
+  constructor(public readonly report: GroundingReport, public readonly min_score: number) {
+    super(`LLM output failed grounding (score ${report.score} < ${min_score}): ${report.flagged.slice(0, 3).map(claim => claim.text).join('; ')}`);
+    this.name = 'GroundingError';
+    Object.setPrototypeOf(this, GroundingError.prototype);
+  }
+}
+
+interface Mention {
+  entry: CatalogEntry;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const DEFAULT_OPTIONS: GroundingOptions = {
+  price_tolerance: 0.25,
+  hours_tolerance_minutes: 60,
+  catalog_ttl_ms: 10 * 60 * 1000
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+// Capitalised names ending in a place noun, e.g. "Chapora Fort" or "Arvalem Caves"
+const PLACE_PATTERN = /\b((?:[A-Z][\w'’-]+\s+){1,3}(?:Beach|Fort|Church|Cathedral|Basilica|Temple|Market|Falls|Island|Lake|Museum|Sanctuary|Bay|Hill|Caves?|Waterfall|Palace))\b/g;
+const PLACE_LEADING_WORDS = ['visit', 'explore', 'the', 'then', 'head', 'enjoy', 'at', 'from', 'to', 'day', 'morning', 'afternoon', 'evening', 'next', 'finally'];
+const PRICE_PATTERN = /(?:₹|\bRs\.?|\bINR)\s?(\d[\d,]*)(?:\s?(?:-|–|to)\s?(?:₹|Rs\.?|INR)?\s?(\d[\d,]*))?/gi;
+const TIME = '(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?';
+const HOURS_RANGE_PATTERN = new RegExp(`${TIME}\\s*(?:-|–|to|until)\\s*${TIME}`, 'gi');
+const HOURS_CONTEXT_PATTERN = /\b(open|opens|opening|close|closes|closing|hours|timings?)\b/i;
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const DAY_MONTH_PATTERN = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME}(?:,?\\s*(\\d{4}))?`, 'gi');
+const MONTH_DAY_PATTERN = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s*(\\d{4}))?`, 'gi');
+
+/**
+ * Fact-checks LLM output against the POI and event catalog. Places, prices,
+ * opening hours and event dates are extracted sentence by sentence; prices,
+ * hours and dates are attributed to the nearest catalog place mentioned before
+ * them in the same sentence. Places missing from the catalog and values that
+ * contradict it are flagged; claims with nothing to check against are kept as
+ * unverified and don't affect the score.
+ */
+export class GroundingChecker {
+  private options: GroundingOptions;
+  private catalog?: { entries: CatalogEntry[]; loaded_at: number };
+
+  constructor(
+    private repository: PoiCatalogRepository = poiCatalogRepository,
+    options: Partial<GroundingOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async check(content: string): Promise<GroundingReport> {
+    const entries = await this.loadCatalog();
+    if (!entries) {
+      return { score: 1, claims: [], flagged: [], catalog_available: false };
+    }
+
+    const claims: GroundedClaim[] = [];
+    const seenPlaces = new Set<string>();
+
+    this.splitSentences(content).forEach(sentence => {
+      const mentions = this.findMentions(sentence, entries);
+
+      mentions.forEach(mention => {
+        if (seenPlaces.has(mention.entry.entity_id)) return;
+        seenPlaces.add(mention.entry.entity_id);
+        claims.push({ type: 'place', text: mention.text, status: 'supported', entity_id: mention.entry.entity_id, entity_name: mention.entry.name });
+      });
+
+      this.findUnknownPlaces(sentence, mentions, entries).forEach(place => {
+        if (seenPlaces.has(place.toLowerCase())) return;
+        seenPlaces.add(place.toLowerCase());
+        claims.push({ type: 'place', text: place, status: 'unverified' });
+      });
+
+      claims.push(...this.checkPrices(sentence, mentions));
+      claims.push(...this.checkOpeningHours(sentence, mentions));
+      claims.push(...this.checkDates(sentence, mentions));
+    });
+
+    const flagged = claims.filter(claim => claim.status === 'contradicted' || (claim.type === 'place' && claim.status === 'unverified'));
+    const supported = claims.filter(claim => claim.status === 'supported').length;
+    const counted = supported + flagged.length;
+
+    return {
+      score: counted > 0 ? Math.round((supported / counted) * 100) / 100 : 1,
+      claims,
+      flagged,
+      catalog_available: true
+    };
+  }
+
+  // Catalog load failures are logged and the last good copy reused, so a database problem never fails a generation
+  private async loadCatalog(): Promise<CatalogEntry[] | null> {
+    if (this.catalog && Date.now() - this.catalog.loaded_at < this.options.catalog_ttl_ms) {
+      return this.catalog.entries;
+    }
+
+    try {
+      const entries = await this.repository.listEntries();
+      this.catalog = { entries, loaded_at: Date.now() };
+      return entries;
+    } catch (error) {
+      console.warn('Grounding catalog load failed:', error instanceof Error ? error.message : error);
+      return this.catalog ? this.catalog.entries : null;
+    }
+  }
+
+  private splitSentences(content: string): string[] {
+    return content
+      .replace(/([.!?])\s+(?=[A-Z₹])/g, '$1\n')
+      .split(/\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private findMentions(sentence: string, entries: CatalogEntry[]): Mention[] {
+    const mentions: Mention[] = [];
+    const lower = sentence.toLowerCase();
+
+    entries.forEach(entry => {
+      // Longest name first, so "Baga Beach Family Day" wins over its alias "Baga Beach"
+      const names = [entry.name].concat(entry.aliases).sort((a, b) => b.length - a.length);
+      for (const name of names) {
+        const start = this.indexOfWord(lower, name.toLowerCase());
+        if (start !== -1) {
+          mentions.push({ entry, text: sentence.substr(start, name.length), start, end: start + name.length });
+          break;
+        }
+      }
+    });
+
+    return mentions.sort((a, b) => a.start - b.start);
+  }
+
+  private findUnknownPlaces(sentence: string, mentions: Mention[], entries: CatalogEntry[]): string[] {
+    const knownNames = entries.reduce((names: string[], entry) => names.concat(entry.name, entry.aliases), [])
+      .map(name => name.toLowerCase());
+    const places: string[] = [];
+    const pattern = new RegExp(PLACE_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(sentence)) !== null) {
+      const words = match[1].split(/\s+/);
+      while (words.length > 2 && PLACE_LEADING_WORDS.includes(words[0].toLowerCase())) {
+        words.shift();
+      }
+      const place = words.join(' ');
+      const start = match.index + match[1].length - place.length;
+      const overlapsKnown = mentions.some(mention => start < mention.end && start + place.length > mention.start);
+
+      if (!overlapsKnown && !knownNames.some(name => name.includes(place.toLowerCase()))) {
+        places.push(place);
+      }
+    }
+
+    return places;
+  }
+
+  private checkPrices(sentence: string, mentions: Mention[]): GroundedClaim[] {
+    const claims: GroundedClaim[] = [];
+    const pattern = new RegExp(PRICE_PATTERN.source, 'gi');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(sentence)) !== null) {
+      const low = Number(match[1].replace(/,/g, ''));
+      const high = match[2] ? Number(match[2].replace(/,/g, '')) : low;
+      const subject = this.subjectAt(mentions, match.index);
+      const range = subject?.entry.price_range;
+
+      if (!subject || !range) {
+        claims.push({ type: 'price', text: match[0].trim(), status: 'unverified', entity_id: subject?.entry.entity_id });
+        continue;
+      }
+
+      const tolerance = this.options.price_tolerance;
+      const withinRange = low >= range.min * (1 - tolerance) && high <= range.max * (1 + tolerance);
+      claims.push({
+        type: 'price',
+        text: match[0].trim(),
+        status: withinRange ? 'supported' : 'contradicted',
+        entity_id: subject.entry.entity_id,
+        entity_name: subject.entry.name,
+        expected: withinRange ? undefined : (range.min === range.max ? `₹${range.min}` : `₹${range.min}–₹${range.max}`)
+      });
+    }
+
+    return claims;
+  }
+
+  private checkOpeningHours(sentence: string, mentions: Mention[]): GroundedClaim[] {
+    if (!HOURS_CONTEXT_PATTERN.test(sentence)) return [];
+
+    const claims: GroundedClaim[] = [];
+    const pattern = new RegExp(HOURS_RANGE_PATTERN.source, 'gi');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(sentence)) !== null) {
+      // "9-5" without am/pm is too ambiguous (it could be a price or a rating)
+      if (!match[3] && !match[6] && !match[2] && !match[5]) continue;
+
+      // "2-5pm" shares the meridiem, "9-6pm" opens in the morning
+      const closeMeridiem = match[6];
+      const openMeridiem = match[3] || (Number(match[1]) <= Number(match[4]) ? closeMeridiem : 'am');
+      const open = this.toMinutes(match[1], match[2], openMeridiem);
+      const close = this.toMinutes(match[4], match[5], closeMeridiem);
+      const subject = this.subjectAt(mentions, match.index);
+      const hours = subject?.entry.opening_hours;
+
+      if (!subject || !hours || open === null || close === null) {
+        claims.push({ type: 'opening_hours', text: match[0].trim(), status: 'unverified', entity_id: subject?.entry.entity_id });
+        continue;
+      }
+
+      const tolerance = this.options.hours_tolerance_minutes;
+      const matches = Math.abs(open - this.toMinutes(...this.splitTime(hours.open))!) <= tolerance &&
+        Math.abs(close - this.toMinutes(...this.splitTime(hours.close))!) <= tolerance;
+      claims.push({
+        type: 'opening_hours',
+        text: match[0].trim(),
+        status: matches ? 'supported' : 'contradicted',
+        entity_id: subject.entry.entity_id,
+        entity_name: subject.entry.name,
+        expected: matches ? undefined : `${hours.open}–${hours.close}`
+      });
+    }
+
+    return claims;
+  }
+
+  private checkDates(sentence: string, mentions: Mention[]): GroundedClaim[] {
+    const claims: GroundedClaim[] = [];
+    const found: Array<{ text: string; index: number; year?: number; month: number; day: number }> = [];
+    const collect = (source: RegExp, read: (match: RegExpExecArray) => { year?: number; month: number; day: number }) => {
+      const pattern = new RegExp(source.source, 'gi');
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(sentence)) !== null) {
+        if (found.some(date => match!.index < date.index + date.text.length && date.index < match!.index + match![0].length)) continue;
+        found.push({ text: match[0].trim(), index: match.index, ...read(match) });
+      }
+    };
+
+    collect(ISO_DATE_PATTERN, match => ({ year: Number(match[1]), month: Number(match[2]) - 1, day: Number(match[3]) }));
+    collect(DAY_MONTH_PATTERN, match => ({ day: Number(match[1]), month: MONTHS.indexOf(match[2].toLowerCase()), year: match[3] ? Number(match[3]) : undefined }));
+    collect(MONTH_DAY_PATTERN, match => ({ month: MONTHS.indexOf(match[1].toLowerCase()), day: Number(match[2]), year: match[3] ? Number(match[3]) : undefined }));
+
+    found.forEach(date => {
+      const subject = this.subjectAt(mentions.filter(mention => mention.entry.kind === 'event'), date.index);
+      if (!subject || !subject.entry.start_date) {
+        claims.push({ type: 'date', text: date.text, status: 'unverified', entity_id: subject?.entry.entity_id });
+        return;
+      }
+
+      const start = subject.entry.start_date.slice(0, 10);
+      const end = (subject.entry.end_date || subject.entry.start_date).slice(0, 10);
+      const year = date.year ?? Number(start.slice(0, 4));
+      const claimed = `${year}-${date.month < 9 ? '0' : ''}${date.month + 1}-${date.day < 10 ? '0' : ''}${date.day}`;
+      const withinEvent = claimed >= start && claimed <= end;
+
+      claims.push({
+        type: 'date',
+        text: date.text,
+        status: withinEvent ? 'supported' : 'contradicted',
+        entity_id: subject.entry.entity_id,
+        entity_name: subject.entry.name,
+        expected: withinEvent ? undefined : (start === end ? start : `${start} to ${end}`)
+      });
+    });
+
+    return claims;
+  }
+
+  // The closest mention before `index`, else the first one after it in the sentence
+  private subjectAt(mentions: Mention[], index: number): Mention | undefined {
+    const before = mentions.filter(mention => mention.start <= index);
+    return before.length > 0 ? before[before.length - 1] : mentions[0];
+  }
+
+  private indexOfWord(text: string, word: string): number {
+    let index = text.indexOf(word);
+    while (index !== -1) {
+      const before = index === 0 ? ' ' : text[index - 1];
+      const after = text[index + word.length] || ' ';
+      if (!/\w/.test(before) && !/\w/.test(after)) return index;
+      index = text.indexOf(word, index + 1);
+    }
+    return -1;
+  }
+
+  private splitTime(time: string): [string, string | undefined, undefined] {
+    const [hours, minutes] = time.split(':');
+    return [hours, minutes, undefined];
+  }
+
+  private toMinutes(hours: string, minutes: string | undefined, meridiem: string | undefined): number | null {
+    let hour = Number(hours);
+    if (isNaN(hour) || hour > 23) return null;
+
+    const period = meridiem?.toLowerCase();
+    if (period === 'pm' && hour < 12) hour += 12;
+    if (period === 'am' && hour === 12) hour = 0;
+    return hour * 60 + (minutes ? Number(minutes) : 0);
+  }
+}
+
+// Corrective follow-up turn for the `regenerate` policy
+export function buildGroundingCorrection(report: GroundingReport): string {
+  const issues = report.flagged.slice(0, 10).map(claim => {
+    if (claim.type === 'place' && claim.status === 'unverified') {
+      return `- "${claim.text}" is not a place we know of`;
+    }
+    return `- "${claim.text}" for ${claim.entity_name} does not match our data (${claim.expected})`;
+  });
+
+  return `Some details in your answer don't match our catalog of places and events:
+${issues.join('\n')}
+
+Rewrite the answer, correcting or removing these details. Only mention places you are sure exist, and leave out prices, hours and dates you are unsure of.`;
+}
+
+export const groundingChecker = new GroundingChecker();
+export default GroundingChecker;
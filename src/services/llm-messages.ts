@@ -0,0 +1,100 @@
+import type { LLMMessage, LLMMessageRole, LLMRequest } from './llm-orchestrator';
+
+export class InvalidMessagesError extends Error {
+  readonly code = 'INVALID_MESSAGES';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMessagesError';
+    Object.setPrototypeOf(this, InvalidMessagesError.prototype);
+  }
+}
+
+const MESSAGE_ROLES: LLMMessageRole[] = ['system', 'user', 'assistant'];
+export const MAX_CONVERSATION_MESSAGES = 50;
+
+// The request as a conversation; a plain prompt is a single user turn
+export function getRequestMessages(request: LLMRequest): LLMMessage[] {
+  if (request.messages && request.messages.length > 0) {
+    return request.messages;
+  }
+  if (typeof request.prompt === 'string') {
+    return [{ role: 'user', content: request.prompt }];
+  }
+  throw new InvalidMessagesError('prompt or messages is required');
+}
+
+// Checks client-supplied messages; the conversation must end with a user turn
+export function validateMessages(input: unknown): LLMMessage[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new InvalidMessagesError('messages must be a non-empty array');
+  }
+  if (input.length > MAX_CONVERSATION_MESSAGES) {
+    throw new InvalidMessagesError(`messages cannot contain more than ${MAX_CONVERSATION_MESSAGES} entries`);
+  }
+
+  const messages = input.map((message, index) => {
+    if (!message || !MESSAGE_ROLES.includes(message.role) || typeof message.content !== 'string') {
+      throw new InvalidMessagesError(`messages[${index}] must have a role (${MESSAGE_ROLES.join(', ')}) and string content`);
+    }
+    return { role: message.role as LLMMessageRole, content: message.content };
+  });
+
+  if (messages[messages.length - 1].role !== 'user') {
+    throw new InvalidMessagesError('the last message must be from the user');
+  }
+  return messages;
+}
+
+// System text and the remaining turns, for APIs that take the system prompt separately
+export function splitSystemPrompt(messages: LLMMessage[]): { system?: string; turns: LLMMessage[] } {
+  const system = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  return {
+    system: system || undefined,
+    turns: messages.filter(message => message.role !== 'system')
+  };
+}
+
+// APIs that need strictly alternating turns get consecutive same-role messages joined
+export function mergeConsecutiveTurns(turns: LLMMessage[]): LLMMessage[] {
+  return turns.reduce((merged: LLMMessage[], turn) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === turn.role) {
+      merged[merged.length - 1] = { role: turn.role, content: `${previous.content}\n\n${turn.content}` };
+    } else {
+      merged.push(turn);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Renders a conversation for completion-style APIs without chat roles. A lone
+ * user turn is sent as-is, so plain prompts reach the provider unchanged.
+ */
+export function renderTranscript(messages: LLMMessage[]): string {
+  if (messages.length === 1 && messages[0].role === 'user') {
+    return messages[0].content;
+  }
+
+  const labels: Record<LLMMessageRole, string> = { system: 'System', user: 'User', assistant: 'Assistant' };
+  return messages
+    .map(message => `${labels[message.role]}: ${message.content}`)
+    .concat('Assistant:')
+    .join('\n\n');
+}
+
+/**
+ * Stable text identifying a conversation, used for cache keys and payload hashes.
+ * A plain prompt is its own text, so prompt hashes match the prompt's sha256.
+ */
+export function conversationText(messages: LLMMessage[]): string {
+  if (messages.length === 1 && messages[0].role === 'user') {
+    return messages[0].content;
+  }
+  return JSON.stringify(messages.map(message => [message.role, message.content]));
+}
@@ -0,0 +1,135 @@
+export type LLMCallOutcome = 'success' | 'error';
+
+type Labels = Record<string, string>;
+
+interface MetricDefinition {
+  name: string;
+  help: string;
+  type: 'counter' | 'histogram';
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[]; // cumulative counts, one per bucket bound
+  sum: number;
+  count: number;
+}
+
+// Provider calls take anywhere from a cached-model 100ms to a minute-long generation
+const LATENCY_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+
+const METRICS: Record<string, MetricDefinition> = {
+  duration: { name: 'llm_request_duration_seconds', help: 'Provider call latency per attempt, including retries', type: 'histogram' },
+  requests: { name: 'llm_requests_total', help: 'Provider call attempts by outcome', type: 'counter' },
+  errors: { name: 'llm_errors_total', help: 'Failed provider call attempts by error class', type: 'counter' },
+  tokens: { name: 'llm_tokens_total', help: 'Tokens sent to and generated by providers', type: 'counter' },
+  cost: { name: 'llm_cost_total', help: 'Spend in cost_per_token units', type: 'counter' },
+  cache: { name: 'llm_cache_lookups_total', help: 'Response cache lookups by result', type: 'counter' },
+  fallbacks: { name: 'llm_fallbacks_total', help: 'Requests answered by a provider other than the requested one', type: 'counter' }
+};
+
+/**
+ * In-process LLM metrics, labelled by provider and task, rendered in the
+ * Prometheus text exposition format. Counters only grow until restart, which
+ * Prometheus' rate() handles.
+ */
+export class LLMMetrics {
+  private counters: Map<string, { labels: Labels; value: number }> = new Map();
+  private histograms: Map<string, HistogramSeries> = new Map();
+
+  recordAttempt(provider: string, task: string | undefined, durationMs: number, outcome: LLMCallOutcome, errorClass?: string): void {
+    const labels = { provider, task: task || 'none' };
+    this.observe(METRICS.duration.name, { ...labels, outcome }, durationMs / 1000);
+    this.increment(METRICS.requests.name, { ...labels, outcome });
+    if (outcome === 'error') {
+      this.increment(METRICS.errors.name, { ...labels, error_class: errorClass || 'unknown' });
+    }
+  }
+
+  recordUsage(provider: string, task: string | undefined, inputTokens: number, outputTokens: number, cost: number): void {
+    const labels = { provider, task: task || 'none' };
+    this.increment(METRICS.tokens.name, { ...labels, direction: 'input' }, inputTokens);
+    this.increment(METRICS.tokens.name, { ...labels, direction: 'output' }, outputTokens);
+    this.increment(METRICS.cost.name, labels, cost);
+  }
+
+  recordCacheLookup(task: string | undefined, hit: boolean): void {
+    this.increment(METRICS.cache.name, { task: task || 'none', result: hit ? 'hit' : 'miss' });
+  }
+
+  recordFallback(task: string | undefined, from: string, to: string): void {
+    this.increment(METRICS.fallbacks.name, { task: task || 'none', from, to });
+  }
+
+  renderPrometheus(): string {
+    const lines: string[] = [];
+
+    Object.keys(METRICS).forEach(key => {
+      const metric = METRICS[key];
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+      if (metric.type === 'counter') {
+        this.seriesOf(this.counters, metric.name).forEach(series => {
+          lines.push(`${metric.name}${this.formatLabels(series.labels)} ${series.value}`);
+        });
+        return;
+      }
+
+      this.seriesOf(this.histograms, metric.name).forEach(series => {
+        LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+          lines.push(`${metric.name}_bucket${this.formatLabels({ ...series.labels, le: String(bound) })} ${series.buckets[index]}`);
+        });
+        lines.push(`${metric.name}_bucket${this.formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+        lines.push(`${metric.name}_sum${this.formatLabels(series.labels)} ${series.sum}`);
+        lines.push(`${metric.name}_count${this.formatLabels(series.labels)} ${series.count}`);
+      });
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private increment(name: string, labels: Labels, amount: number = 1): void {
+    const key = this.seriesKey(name, labels);
+    const series = this.counters.get(key) || { labels, value: 0 };
+    series.value += amount;
+    this.counters.set(key, series);
+  }
+
+  private observe(name: string, labels: Labels, value: number): void {
+    const key = this.seriesKey(name, labels);
+    const series = this.histograms.get(key) || { labels, buckets: LATENCY_BUCKETS_SECONDS.map(() => 0), sum: 0, count: 0 };
+    LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.histograms.set(key, series);
+  }
+
+  private seriesOf<T>(store: Map<string, T>, name: string): T[] {
+    return Array.from(store.keys())
+      .filter(key => key.split('{')[0] === name)
+      .sort()
+      .map(key => store.get(key)!);
+  }
+
+  private seriesKey(name: string, labels: Labels): string {
+    return `${name}${this.formatLabels(labels)}`;
+  }
+
+  private formatLabels(labels: Labels): string {
+    const pairs = Object.keys(labels)
+      .sort()
+      .map(key => `${key}="${labels[key].replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+    return `{${pairs.join(',')}}`;
+  }
+}
+
+export const llmMetrics = new LLMMetrics();
+export default LLMMetrics;
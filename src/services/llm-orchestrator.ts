@@ -3,254 +3,761 @@ import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import { featureFlags } from '../utils/feature-flags';
 import { auditLogger } from '../utils/audit-logger';
+import { PROMPT_TEMPLATES, PromptBuilder, PromptTask, PromptTaskResult, isPromptTask } from '../prompts/templates';
+import { LLMProviderAdapter, LLMProviderError } from './llm-providers/adapter';
+import { ProviderAdapterRegistry, providerAdapters } from './llm-providers/registry';
+import { StreamTimeoutError, readServerSentEvents } from './llm-providers/sse';
+import { LLMTransport, ProviderExchange, createLLMTransport } from './llm-providers/transport';
+import { ProviderCircuitBreaker, ProviderHealth } from './llm-circuit-breaker';
+import { LLMResponseCache, llmResponseCache } from './llm-cache';
+import { LLMMetrics, llmMetrics } from './llm-metrics';
+import {
+  PromptVariablesError,
+  RoutingOverride,
+  RoutingOverrideError,
+  TaskRouter,
+  UnknownTaskError,
+  loadRoutingOverrides,
+  taskRouter
+} from './llm-task-routing';
+import { BudgetExceededError, LLMBudgetService, llmBudgetService } from './llm-budget';
+import { PromptTooLargeError, fitMessagesToContextWindow } from './llm-context-window';
+import { InvalidMessagesError, conversationText, getRequestMessages, validateMessages } from './llm-messages';
+import { GroundingChecker, GroundingError, GroundingPolicy, GroundingReport, buildGroundingCorrection, groundingChecker } from './llm-grounding';
+import {
+  StructuredOutputError,
+  buildRepairPrompt,
+  buildStructuredPrompt,
+  parseStructuredOutput
+} from './llm-structured-output';
+import { InjectionBlockedError, InjectionPolicy, InjectionRiskLevel, assessInjectionRisk, delimitUntrusted, stripInjections } from '../utils/prompt-injection';
+import type { JsonSchema } from '../utils/json-schema';
+import type { UsageDimension } from '../repositories/llm-usage-repository';
+import { isAdmin } from '../middleware/auth';
+
+export type LLMMessageRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMMessageRole;
+  content: string;
+}
 
 export interface LLMRequest {
-  prompt: string;
+  prompt?: string; // single-turn shorthand for messages: [{ role: 'user', content: prompt }]
+  messages?: LLMMessage[]; // conversation, oldest first; takes precedence over prompt
   provider?: 'rocket' | 'chatgpt' | 'claude' | 'local';
+  model?: string; // replaces the model of `provider`; fallbacks keep their own
   max_tokens?: number;
   temperature?: number;
   cache_ttl?: number;
+  task?: string; // PROMPT_ROUTING key; picks the provider and fallback chain when none is given
+  user_id?: string; // caller, for per-user budgets and spend reports
+  trace_id?: string; // caller's trace id, carried into audit entries (a new one is made when absent)
+  fallback_providers?: string[]; // overrides the task's fallback chain
+  stream?: boolean; // handleGenerate only: respond with Server-Sent Events
+  on_overflow?: 'truncate' | 'reject'; // prompt larger than a provider's context window (default: trim context blocks)
+  response_format?: 'json'; // provider JSON mode (a single object) where supported; the prompt must still ask for JSON
+  grounding?: GroundingPolicy; // fact-check output against the POI/event catalog (generate only, not streams)
+  min_grounding_score?: number; // below this the grounding policy applies (default 0.7)
+  injection_policy?: InjectionPolicy; // high-risk user input: block, strip (default) or route to the restricted template
 }
 
 export interface LLMResponse {
   content: string;
-  provider: string;
+  provider: string; // display name of the provider that answered
+  provider_key: string;
+  fallback_from?: string; // requested provider key, when another provider answered
+  attempts?: number; // calls made to the answering provider, including retries
+  budget_downgraded?: boolean; // answered by the downgrade provider because a budget was exhausted
+  truncated_context?: string[]; // context blocks trimmed to fit the provider's context window
+  dropped_turns?: number; // earliest conversation turns left out to fit the provider's context window
+  grounding?: GroundingReport; // present when the request asked for grounding
+  grounding_regenerated?: boolean; // the answer was regenerated after failing grounding
+  injection?: InjectionOutcome; // present when user input looked like a prompt injection
   tokens_used: number;
   cost: number;
   cached: boolean;
   generated_at: string;
 }
 
+export interface InjectionOutcome {
+  level: InjectionRiskLevel;
+  score: number;
+  action: 'stripped' | 'routed';
+}
+
+export interface StructuredGenerationOptions {
+  max_repairs?: number; // re-prompts with the validation errors before giving up (default 2)
+}
+
+export interface StructuredResponse<T> {
+  data: T;
+  response: LLMResponse; // the attempt that produced valid output
+  repairs: number; // re-prompts it took
+}
+
+// Per-call settings for runTask; provider, sampling and caching come from the task's route
+export interface TaskRunOptions extends StructuredGenerationOptions {
+  provider?: LLMRequest['provider']; // instead of the route's provider; the route's fallbacks still apply
+  model?: string;
+  template?: string; // PROMPT_TEMPLATES key filled instead of the route's template
+  user_id?: string;
+  trace_id?: string;
+  grounding?: GroundingPolicy;
+  min_grounding_score?: number;
+  injection_policy?: InjectionPolicy;
+}
+
+// `data` is the parsed and validated JSON for json routes, the generated text for text routes
+export interface TaskResult<T> {
+  task: string;
+  data: T;
+  response: LLMResponse;
+  repairs: number;
+}
+
+export type LLMStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: LLMResponse }; // always last, with final usage and cost
+
+export interface LLMStreamOptions {
+  signal?: AbortSignal; // aborts the upstream request, e.g. when the client disconnects
+}
+
 export interface LLMProvider {
-  name: string;
+  key: string; // routing key, e.g. 'chatgpt'
+  name: string; // display name
+  adapter: string; // key of the LLMProviderAdapter that speaks this provider's API
+  model?: string;
   endpoint: string;
   api_key: string;
   cost_per_token: number;
-  max_tokens: number;
+  max_tokens: number; // completion tokens per request
+  context_window: number; // prompt + completion tokens the model accepts
+  timeout_ms: number;
+  max_retries: number; // extra attempts for retryable errors (429, 5xx, timeouts)
   enabled: boolean;
 }
 
+// A request after the injection policy was applied to its user turns
+interface GuardedRequest {
+  request: LLMRequest; // with sanitized messages
+  injection?: InjectionOutcome;
+}
+
+// A request as sent to one provider, after fitting it to that provider's context window
+interface FittedRequest {
+  request: LLMRequest;
+  prompt_tokens: number;
+  truncated_context?: string[];
+  dropped_turns?: number;
+}
+
+// Either a live stream or, for providers that can't stream, the complete response
+interface OpenedStream {
+  body?: ReadableStream<Uint8Array>;
+  fitted?: FittedRequest;
+  response?: LLMResponse;
+}
+
 class LLMOrchestrator {
   private providers: Map<string, LLMProvider> = new Map();
-  private cache: Map<string, any> = new Map();
+  private readonly RETRY_BASE_DELAY_MS = 500;
+  private readonly RETRY_MAX_DELAY_MS = 8000;
+  private readonly DEFAULT_MAX_REPAIRS = 2;
+  private readonly DEFAULT_MIN_GROUNDING_SCORE = 0.7;
+  private readonly RESTRICTED_MAX_TOKENS = 300;
+  // A stream may go quiet for the provider's timeout_ms between chunks, and last at most this long
+  private readonly STREAM_TOTAL_TIMEOUT_MS = 5 * 60 * 1000;
+  // Set by the server for the open generate endpoint: its spend counts against this task's budget,
+  // and since the caller writes the whole prompt, high-risk input is refused rather than stripped
+  private readonly GENERATE_TASK = 'generate';
+  private readonly GENERATE_INJECTION_POLICY: InjectionPolicy = 'block';
 
-  constructor() {
+  constructor(
+    private adapters: ProviderAdapterRegistry = providerAdapters,
+    private circuitBreaker: ProviderCircuitBreaker = new ProviderCircuitBreaker(),
+    private cache: LLMResponseCache = llmResponseCache,
+    private budget: LLMBudgetService = llmBudgetService,
+    private grounding: GroundingChecker = groundingChecker,
+    private transport: LLMTransport = createLLMTransport(),
+    private metrics: LLMMetrics = llmMetrics,
+    private router: TaskRouter = taskRouter
+  ) {
     this.initializeProviders();
+    if (process.env.LLM_ROUTING_OVERRIDES) {
+      this.loadRoutingOverridesFile(process.env.LLM_ROUTING_OVERRIDES);
+    }
+  }
+
+  // Runs while the module loads: a bad file is logged and the default routes stay in place
+  private loadRoutingOverridesFile(file: string): void {
+    try {
+      this.setRoutingOverrides(loadRoutingOverrides(file));
+    } catch (error) {
+      auditLogger
+        .logError(error instanceof Error ? error : new Error(String(error)), { routing_overrides_file: file })
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Adds or replaces a provider. New APIs only need an adapter registered
+   * under `provider.adapter`; nothing else in the orchestrator changes.
+   */
+  registerProvider(provider: LLMProvider): void {
+    this.adapters.get(provider.adapter); // fail fast on unknown adapters
+    this.providers.set(provider.key, provider);
   }
 
   private initializeProviders(): void {
-    this.providers.set('rocket', {
+    this.registerProvider({
+      key: 'rocket',
       name: 'Rocket AI',
+      adapter: 'rocket',
       endpoint: 'https://api.rocket.ai/v1/generate',
       api_key: process.env.ROCKET_API_KEY || '{{API_KEY}}',
       cost_per_token: 0.0001,
       max_tokens: 4000,
+      context_window: 8192,
+      timeout_ms: 20000,
+      max_retries: 2,
       enabled: true
     });
 
-    this.providers.set('chatgpt', {
+    this.registerProvider({
+      key: 'chatgpt',
       name: 'ChatGPT Pro',
+      adapter: 'openai',
+      model: process.env.OPENAI_MODEL || 'gpt-4',
       endpoint: 'https://api.openai.com/v1/chat/completions',
       api_key: process.env.OPENAI_API_KEY || '{{API_KEY}}',
       cost_per_token: 0.0015,
       max_tokens: 4000,
+      context_window: Number(process.env.OPENAI_CONTEXT_WINDOW) || 8192,
+      timeout_ms: 30000,
+      max_retries: 2,
       enabled: true
     });
 
-    this.providers.set('claude', {
+    this.registerProvider({
+      key: 'claude',
       name: 'Claude',
+      adapter: 'anthropic',
+      model: process.env.ANTHROPIC_MODEL || 'claude-3-sonnet-20240229',
       endpoint: 'https://api.anthropic.com/v1/messages',
       api_key: process.env.ANTHROPIC_API_KEY || '{{API_KEY}}',
       cost_per_token: 0.0008,
       max_tokens: 8000,
+      context_window: 200000,
+      timeout_ms: 30000,
+      max_retries: 2,
       enabled: true
     });
 
-    this.providers.set('local', {
+    this.registerProvider({
+      key: 'local',
       name: 'Local LLM',
-      endpoint: 'http://localhost:11434/api/generate',
+      adapter: 'ollama',
+      model: process.env.LOCAL_LLM_MODEL || 'llama3',
+      endpoint: process.env.LOCAL_LLM_ENDPOINT || 'http://localhost:11434/api/generate',
       api_key: '',
       cost_per_token: 0.0,
       max_tokens: 2000,
-      enabled: false
+      context_window: Number(process.env.LOCAL_LLM_CONTEXT_WINDOW) || 8192,
+      timeout_ms: 60000,
+      max_retries: 1,
+      enabled: process.env.LOCAL_LLM_ENABLED === 'true'
     });
   }
 
+  getProviderKeys(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  // Replaces the active routing overrides; provider keys must be registered
+  setRoutingOverrides(overrides: Record<string, RoutingOverride>): void {
+    this.router.setOverrides(overrides, this.getProviderKeys());
+  }
+
+  /**
+   * Runs a PROMPT_ROUTING task: fills its template from `variables`, then generates
+   * with the route's provider chain, max_tokens, temperature and cache_ttl. Routes
+   * with JSON output are validated against the route's schema (any object if it
+   * has none) and repaired like generateStructured.
+   */
+  async runTask<K extends PromptTask, T = PromptTaskResult<K>>(
+    task: K,
+    variables: Record<string, unknown>,
+    options: TaskRunOptions = {}
+  ): Promise<TaskResult<T>> {
+    const route = this.router.getRoute(task);
+    if (!route) {
+      throw new UnknownTaskError(task);
+    }
+
+    const { max_repairs, template, ...settings } = options;
+    const request: LLMRequest = {
+      ...settings,
+      prompt: this.router.buildPrompt(task, variables, template),
+      task,
+      max_tokens: route.max_tokens,
+      temperature: route.temperature,
+      cache_ttl: route.cache_ttl
+    };
+
+    if (route.output === 'text') {
+      const response = await this.generate(request);
+      return { task, data: response.content as unknown as T, response, repairs: 0 };
+    }
+
+    const { data, response, repairs } = await this.generateStructured<T>(request, route.schema || { type: 'object' }, { max_repairs });
+    return { task, data, response, repairs };
+  }
+
   async generate(request: LLMRequest): Promise<LLMResponse> {
     if (!await featureFlags.isEnabled('llm_orchestration')) {
       throw new Error('LLM orchestration is disabled');
     }
 
-    const provider = this.selectProvider(request);
+    const routedChain = this.resolveProviderChain(request);
     const cacheKey = this.generateCacheKey(request);
-    
-    // Check cache first
+
+    // Screen user turns and enforce budgets before anything is served, cached answers included
+    const guarded = await this.guardInput(request);
+    const budgeted = await this.applyBudget(request, routedChain);
+
     if (request.cache_ttl && request.cache_ttl > 0) {
-      const cached = this.cache.get(cacheKey);
-      if (cached && cached.expires_at > Date.now()) {
+      const cached = await this.cache.get(cacheKey);
+      this.metrics.recordCacheLookup(request.task, !!cached);
+      if (cached) {
         return {
-          ...cached.response,
+          ...cached,
           cached: true
         };
       }
     }
 
-    // Sanitize prompt
-    const sanitizedPrompt = this.sanitizePrompt(request.prompt);
-    
-    try {
-      const response = await this.callProvider(provider, {
-        ...request,
-        prompt: sanitizedPrompt
-      });
+    const checked = await this.complete(request, guarded, routedChain, budgeted);
 
-      // Cache response if TTL specified
-      if (request.cache_ttl && request.cache_ttl > 0) {
-        this.cache.set(cacheKey, {
-          response,
-          expires_at: Date.now() + (request.cache_ttl * 1000)
-        });
+    // Cache response if TTL specified
+    if (request.cache_ttl && request.cache_ttl > 0) {
+      await this.cache.set(cacheKey, conversationText(getRequestMessages(request)), checked, request.cache_ttl);
+    }
+
+    return {
+      ...checked,
+      cached: false
+    };
+  }
+
+  // Calls the chain with an already screened and budgeted request
+  private async complete(
+    request: LLMRequest,
+    guarded: GuardedRequest,
+    routedChain: LLMProvider[],
+    { chain, downgraded }: { chain: LLMProvider[]; downgraded: boolean }
+  ): Promise<LLMResponse> {
+    const { result: response, provider, attempts } = await this.runWithFallback(
+      chain,
+      request,
+      candidate => this.callProvider(candidate, guarded.request)
+    );
+    const answered = { ...this.withRoutingDetails(response, routedChain[0], provider, attempts, downgraded), injection: guarded.injection };
+
+    // Fact-check before caching, so rejected answers are never served again
+    return request.grounding ? this.applyGrounding(request, guarded.request.messages!, answered) : answered;
+  }
+
+  /**
+   * Generates JSON matching `schema`. Output is extracted from fences or prose and
+   * validated; on failure the model is re-prompted with the validation errors up to
+   * `max_repairs` times before a StructuredOutputError. Only valid output is cached.
+   * For conversations the JSON contract is added to the latest user turn.
+   */
+  async generateStructured<T>(
+    request: LLMRequest,
+    schema: JsonSchema,
+    options: StructuredGenerationOptions = {}
+  ): Promise<StructuredResponse<T>> {
+    if (!await featureFlags.isEnabled('llm_orchestration')) {
+      throw new Error('LLM orchestration is disabled');
+    }
+
+    // Screened and budgeted once; cached answers and every repair attempt share the outcome
+    const routedChain = this.resolveProviderChain(request);
+    const guarded = await this.guardInput(request);
+    const budgeted = await this.applyBudget(request, routedChain);
+
+    const maxRepairs = options.max_repairs ?? this.DEFAULT_MAX_REPAIRS;
+    const messages = guarded.request.messages!;
+    const history = messages.slice(0, -1);
+    const structuredPrompt = buildStructuredPrompt(messages[messages.length - 1].content, schema);
+    const withPrompt = (prompt: string): LLMMessage[] => history.concat({ role: 'user', content: prompt });
+    // OpenAI-style JSON mode only ever returns an object; a routed request answers in plain text
+    const responseFormat = schema.type === 'object' && guarded.injection?.action !== 'routed' ? 'json' : undefined;
+    const cacheKey = this.generateCacheKey({ ...request, messages: withPrompt(structuredPrompt), response_format: responseFormat });
+    const cacheable = !!request.cache_ttl && request.cache_ttl > 0;
+
+    if (cacheable) {
+      const cached = await this.cache.get(cacheKey);
+      const parsed = cached ? parseStructuredOutput(cached.content, schema) : null;
+      if (cached && parsed && parsed.errors.length === 0) {
+        return { data: parsed.data as T, response: { ...cached, cached: true }, repairs: 0 };
+      }
+    }
+
+    let prompt = structuredPrompt;
+    let errors: string[] = [];
+    let content = '';
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const attemptRequest: LLMRequest = { ...guarded.request, messages: withPrompt(prompt), response_format: responseFormat, cache_ttl: 0 };
+      const response = { ...await this.complete(attemptRequest, { ...guarded, request: attemptRequest }, routedChain, budgeted), cached: false };
+      const parsed = parseStructuredOutput(response.content, schema);
+
+      if (parsed.errors.length === 0) {
+        if (cacheable) {
+          await this.cache.set(cacheKey, conversationText(withPrompt(structuredPrompt)), response, request.cache_ttl!);
+        }
+        return { data: parsed.data as T, response, repairs: attempt };
+      }
+
+      errors = parsed.errors;
+      content = response.content;
+      prompt = buildRepairPrompt(structuredPrompt, content, errors);
+    }
+
+    throw new StructuredOutputError(errors, maxRepairs + 1, content);
+  }
+
+  /**
+   * Streams token deltas as the provider produces them. Providers whose adapter
+   * can't stream are called normally and yield their content as a single delta.
+   * Retries and fallback only apply until the stream is open.
+   */
+  async *generateStream(request: LLMRequest, options: LLMStreamOptions = {}): AsyncGenerator<LLMStreamEvent> {
+    if (!await featureFlags.isEnabled('llm_orchestration')) {
+      throw new Error('LLM orchestration is disabled');
+    }
+
+    const routedChain = this.resolveProviderChain(request);
+    const cacheKey = this.generateCacheKey(request);
+    const guarded = await this.guardInput(request);
+    const { chain, downgraded } = await this.applyBudget(request, routedChain);
+
+    if (request.cache_ttl && request.cache_ttl > 0) {
+      const cached = await this.cache.get(cacheKey);
+      this.metrics.recordCacheLookup(request.task, !!cached);
+      if (cached) {
+        yield { type: 'delta', content: cached.content };
+        yield { type: 'done', response: { ...cached, cached: true } };
+        return;
+      }
+    }
+    const startedAt = Date.now();
+    const opened = await this.runWithFallback(chain, request, async (candidate): Promise<OpenedStream> => {
+      const candidateAdapter = this.adapters.get(candidate.adapter);
+      if (!this.transport.streaming || !candidateAdapter.buildStreamRequest || !candidateAdapter.parseStreamEvent) {
+        return { response: await this.callProvider(candidate, guarded.request) };
       }
 
-      // Detect hallucinations
-      const hallucinationScore = await this.detectHallucination(response.content);
-      if (hallucinationScore > 0.8) {
-        console.warn('High hallucination score detected:', hallucinationScore);
+      const fitted = this.fitToContextWindow(candidate, guarded.request);
+      const target = this.withRequestedModel(candidate, fitted.request);
+      const exchange = { provider: target, request: fitted.request, http: candidateAdapter.buildStreamRequest(target, fitted.request) };
+      const body = await this.requestProvider(candidateAdapter, exchange, async response => response.body, options.signal);
+      if (!body) {
+        throw new LLMProviderError(candidate.key, 'server_error', `Provider ${candidate.name} returned an empty stream`);
       }
+      return { body, fitted };
+    }, options.signal);
+
+    const { provider, attempts } = opened;
+    if (opened.result.response) {
+      const response = { ...this.withRoutingDetails(opened.result.response, routedChain[0], provider, attempts, downgraded), injection: guarded.injection };
+      if (response.content) {
+        yield { type: 'delta', content: response.content };
+      }
+      yield { type: 'done', response };
+      return;
+    }
 
-      return {
-        ...response,
-        cached: false
-      };
+    const adapter = this.adapters.get(provider.adapter);
+    const fitted = opened.result.fitted!;
+    const sent = fitted.request;
+
+    let content = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    let completed = false;
+
+    try {
+      const events = readServerSentEvents(opened.result.body!, {
+        signal: options.signal,
+        idle_timeout_ms: provider.timeout_ms,
+        total_timeout_ms: this.STREAM_TOTAL_TIMEOUT_MS
+      });
+      for await (const event of events) {
+        const chunk = adapter.parseStreamEvent!(event);
+        if (!chunk) continue;
+
+        if (chunk.error) {
+          throw new LLMProviderError(
+            provider.key,
+            adapter.classifyError({ body: { error: chunk.error } }),
+            `Provider ${provider.name} stream failed: ${chunk.error.message}`
+          );
+        }
+        if (chunk.input_tokens !== undefined) inputTokens = chunk.input_tokens;
+        if (chunk.output_tokens !== undefined) outputTokens = chunk.output_tokens;
+        if (chunk.delta) {
+          content += chunk.delta;
+          yield { type: 'delta', content: chunk.delta };
+        }
+        if (chunk.done) break;
+      }
+      completed = true;
     } catch (error) {
-      // Fallback to next available provider
-      const fallbackProvider = this.selectFallbackProvider(provider.name);
-      if (fallbackProvider) {
-        return this.callProvider(fallbackProvider, request);
+      if (!options.signal?.aborted) {
+        this.circuitBreaker.recordFailure(provider.key);
+      }
+      if (error instanceof StreamTimeoutError) {
+        throw new LLMProviderError(provider.key, 'timeout', `Provider ${provider.name} stream stalled: ${error.message}`);
       }
       throw error;
+    } finally {
+      // Cancelled and failed streams are still billed for what was generated
+      if (!completed) {
+        const usage = { input_tokens: inputTokens ?? fitted.prompt_tokens, output_tokens: outputTokens ?? adapter.countTokens(content) };
+        await this.logUsage(provider, sent, usage, { streamed: true, completed: false, latency_ms: Date.now() - startedAt });
+      }
+    }
+
+    const usage = { input_tokens: inputTokens ?? fitted.prompt_tokens, output_tokens: outputTokens ?? adapter.countTokens(content) };
+    const tokensUsed = usage.input_tokens + usage.output_tokens;
+    const response = this.withRoutingDetails({
+      content,
+      provider: provider.name,
+      provider_key: provider.key,
+      truncated_context: fitted.truncated_context,
+      dropped_turns: fitted.dropped_turns,
+      injection: guarded.injection,
+      tokens_used: tokensUsed,
+      cost: tokensUsed * provider.cost_per_token,
+      cached: false,
+      generated_at: new Date().toISOString()
+    }, routedChain[0], provider, attempts, downgraded);
+    await this.logUsage(provider, sent, usage, { streamed: true, latency_ms: Date.now() - startedAt });
+
+    if (request.cache_ttl && request.cache_ttl > 0) {
+      await this.cache.set(cacheKey, conversationText(getRequestMessages(request)), response, request.cache_ttl);
     }
+
+    yield { type: 'done', response };
   }
 
-  private selectProvider(request: LLMRequest): LLMProvider {
-    const preferredProvider = request.provider || 'rocket';
-    const provider = this.providers.get(preferredProvider);
-    
-    if (!provider || !provider.enabled) {
-      // Fallback to first available provider
-      for (const [, p] of this.providers) {
-        if (p.enabled) return p;
-      }
+  getProviderHealth(): ProviderHealth[] {
+    return Array.from(this.providers.keys()).map(key => this.circuitBreaker.getHealth(key));
+  }
+
+  /**
+   * Providers to try, in order: the requested (or task-routed) provider, then the
+   * request's or task's fallback chain. Without an explicit chain every other
+   * enabled provider is a fallback, in registration order.
+   */
+  private resolveProviderChain(request: LLMRequest): LLMProvider[] {
+    const route = request.task ? this.router.getRoute(request.task) : undefined;
+    const primary = request.provider || route?.provider;
+    const fallbacks = request.fallback_providers || route?.fallback;
+    const registered = Array.from(this.providers.keys());
+
+    const keys = primary
+      ? [primary].concat(fallbacks || registered)
+      : registered;
+
+    const chain = keys
+      .filter((key, index) => keys.indexOf(key) === index)
+      .map(key => this.providers.get(key))
+      .filter((provider): provider is LLMProvider => !!provider && provider.enabled);
+
+    if (chain.length === 0) {
       throw new Error('No LLM providers available');
     }
-    
-    return provider;
+    return chain;
   }
 
-  private selectFallbackProvider(excludeProvider: string): LLMProvider | null {
-    for (const [name, provider] of this.providers) {
-      if (name !== excludeProvider && provider.enabled) {
-        return provider;
+  /**
+   * Tries each provider in turn (with retries) until one succeeds. Providers with an
+   * open circuit are skipped; a request the provider rejected as invalid is not
+   * passed on, since it would fail the same way elsewhere.
+   */
+  private async runWithFallback<T>(
+    chain: LLMProvider[],
+    request: LLMRequest,
+    operation: (provider: LLMProvider) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ result: T; provider: LLMProvider; attempts: number }> {
+    let lastError: unknown = null;
+    const skipped: string[] = [];
+
+    for (const provider of chain) {
+      if (!this.circuitBreaker.canRequest(provider.key)) {
+        skipped.push(provider.key);
+        continue;
+      }
+
+      try {
+        const { result, attempts } = await this.withRetries(provider, request, operation, signal);
+        this.circuitBreaker.recordSuccess(provider.key);
+
+        if (provider.key !== chain[0].key) {
+          this.metrics.recordFallback(request.task, chain[0].key, provider.key);
+          await auditLogger.log({
+            trace_id: request.trace_id || uuidv4(),
+            action: 'llm.fallback',
+            entity_type: 'llm_request',
+            entity_id: provider.name,
+            metadata: { task: request.task, requested_provider: chain[0].key, answered_by: provider.key, skipped }
+          });
+        }
+        return { result, provider, attempts };
+      } catch (error) {
+        lastError = error;
+        if (signal?.aborted) throw error;
+
+        if (error instanceof LLMProviderError) {
+          if (error.retryable) {
+            this.circuitBreaker.recordFailure(provider.key);
+          }
+          if (error.errorClass === 'invalid_request') throw error;
+        }
       }
     }
-    return null;
+
+    throw lastError || new LLMProviderError(
+      chain[0].key,
+      'circuit_open',
+      `No LLM provider available: circuit open for ${skipped.join(', ')}`
+    );
   }
 
-  private async callProvider(provider: LLMProvider, request: LLMRequest): Promise<LLMResponse> {
-    const startTime = Date.now();
-    
-    // Provider-specific request formatting
-    let requestBody: any;
-    let headers: any = {
-      'Content-Type': 'application/json'
-    };
+  private async withRetries<T>(
+    provider: LLMProvider,
+    request: LLMRequest,
+    operation: (provider: LLMProvider) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ result: T; attempts: number }> {
+    for (let attempt = 0; ; attempt++) {
+      const startedAt = Date.now();
+      try {
+        const result = await operation(provider);
+        this.metrics.recordAttempt(provider.key, request.task, Date.now() - startedAt, 'success');
+        return { result, attempts: attempt + 1 };
+      } catch (error) {
+        this.metrics.recordAttempt(provider.key, request.task, Date.now() - startedAt, 'error', this.errorClassOf(error));
+        const retryable = error instanceof LLMProviderError && error.retryable;
+        if (!retryable || attempt >= provider.max_retries || signal?.aborted) {
+          throw error;
+        }
+        await this.sleep(this.getBackoffDelay(attempt, (error as LLMProviderError).retry_after_ms));
+      }
+    }
+  }
 
-    switch (provider.name) {
-      case 'Rocket AI':
-        requestBody = {
-          prompt: request.prompt,
-          max_tokens: request.max_tokens || 1000,
-          temperature: request.temperature || 0.7
-        };
-        headers['Authorization'] = `Bearer ${provider.api_key}`;
-        break;
-        
-      case 'ChatGPT Pro':
-        requestBody = {
-          model: 'gpt-4',
-          messages: [{ role: 'user', content: request.prompt }],
-          max_tokens: request.max_tokens || 1000,
-          temperature: request.temperature || 0.7
-        };
-        headers['Authorization'] = `Bearer ${provider.api_key}`;
-        break;
-        
-      case 'Claude':
-        requestBody = {
-          model: 'claude-3-sonnet-20240229',
-          max_tokens: request.max_tokens || 1000,
-          messages: [{ role: 'user', content: request.prompt }]
-        };
-        headers['x-api-key'] = provider.api_key;
-        headers['anthropic-version'] = '2023-06-01';
-        break;
-        
-      default:
-        throw new Error(`Unsupported provider: ${provider.name}`);
-    }
-
-    const response = await fetch(provider.endpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
-    });
+  private errorClassOf(error: unknown): string {
+    if (error instanceof LLMProviderError) return error.errorClass;
+    if (error instanceof PromptTooLargeError) return 'prompt_too_large';
+    return 'unknown';
+  }
 
-    if (!response.ok) {
-      throw new Error(`Provider ${provider.name} returned ${response.status}: ${response.statusText}`);
-    }
+  // Exponential backoff with jitter; a provider's Retry-After wins when it asks for longer
+  private getBackoffDelay(attempt: number, retryAfterMs?: number): number {
+    const exponential = Math.min(this.RETRY_MAX_DELAY_MS, this.RETRY_BASE_DELAY_MS * Math.pow(2, attempt));
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    return retryAfterMs !== undefined ? Math.min(this.RETRY_MAX_DELAY_MS, Math.max(retryAfterMs, jittered)) : jittered;
+  }
 
-    const data = await response.json();
-    const endTime = Date.now();
-    
-    // Extract content based on provider response format
-    let content: string;
-    let tokensUsed: number;
-    
-    switch (provider.name) {
-      case 'Rocket AI':
-        content = data.text || data.content || '';
-        tokensUsed = data.usage?.total_tokens || 0;
-        break;
-        
-      case 'ChatGPT Pro':
-        content = data.choices?.[0]?.message?.content || '';
-        tokensUsed = data.usage?.total_tokens || 0;
-        break;
-        
-      case 'Claude':
-        content = data.content?.[0]?.text || '';
-        tokensUsed = data.usage?.input_tokens + data.usage?.output_tokens || 0;
-        break;
-        
-      default:
-        content = data.content || '';
-        tokensUsed = 0;
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private withRoutingDetails(
+    response: LLMResponse,
+    requested: LLMProvider,
+    answered: LLMProvider,
+    attempts: number,
+    budgetDowngraded: boolean
+  ): LLMResponse {
+    return {
+      ...response,
+      provider: answered.name,
+      provider_key: answered.key,
+      fallback_from: answered.key !== requested.key ? requested.key : undefined,
+      budget_downgraded: budgetDowngraded || undefined,
+      attempts
+    };
+  }
+
+  /**
+   * Enforces daily budgets before any provider is called. An exhausted budget either
+   * refuses the request or narrows the chain to the configured downgrade provider.
+   */
+  private async applyBudget(
+    request: LLMRequest,
+    chain: LLMProvider[]
+  ): Promise<{ chain: LLMProvider[]; downgraded: boolean }> {
+    const decision = await this.budget.check({ user_id: request.user_id, task: request.task });
+    if (decision.action === 'allow') {
+      return { chain, downgraded: false };
     }
 
-    const cost = tokensUsed * provider.cost_per_token;
+    const downgrade = decision.action === 'downgrade' ? this.providers.get(decision.provider) : undefined;
+    if (!downgrade || !downgrade.enabled) {
+      throw new BudgetExceededError(decision.exhausted);
+    }
 
-    // Log usage for monitoring
     await auditLogger.log({
-      trace_id: uuidv4(),
-      action: 'llm.generate',
+      trace_id: request.trace_id || uuidv4(),
+      action: 'llm.budget_downgraded',
       entity_type: 'llm_request',
-      entity_id: provider.name,
-      payload_hash: crypto.createHash('sha256').update(request.prompt).digest('hex').substring(0, 16)
+      entity_id: downgrade.name,
+      user_id: request.user_id,
+      metadata: {
+        task: request.task,
+        requested_provider: chain[0].key,
+        exhausted: decision.exhausted.map(budget => ({ scope: budget.scope, key: budget.key }))
+      }
     });
+    return { chain: [downgrade], downgraded: true };
+  }
+
+  private async callProvider(provider: LLMProvider, original: LLMRequest): Promise<LLMResponse> {
+    const adapter = this.adapters.get(provider.adapter);
+    const startedAt = Date.now();
+    const { request, prompt_tokens, truncated_context, dropped_turns } = this.fitToContextWindow(provider, original);
+    const target = this.withRequestedModel(provider, request);
+    const exchange = { provider: target, request, http: adapter.buildRequest(target, request) };
+    const parsed = adapter.parseResponse(
+      await this.requestProvider(adapter, exchange, response => response.json())
+    );
+
+    const content = parsed.content;
+    // Estimate usage locally when the provider doesn't report it
+    const inputTokens = parsed.input_tokens ?? prompt_tokens;
+    const tokensUsed = parsed.tokens_used ?? inputTokens + (parsed.output_tokens ?? adapter.countTokens(content));
+    const outputTokens = parsed.output_tokens ?? Math.max(0, tokensUsed - inputTokens);
+
+    const cost = tokensUsed * provider.cost_per_token;
+
+    // Log usage for monitoring
+    await this.logUsage(provider, request, { input_tokens: inputTokens, output_tokens: outputTokens }, { latency_ms: Date.now() - startedAt });
 
     return {
       content,
       provider: provider.name,
+      provider_key: provider.key,
+      truncated_context,
+      dropped_turns,
       tokens_used: tokensUsed,
       cost,
       cached: false,
@@ -258,48 +765,538 @@ class LLMOrchestrator {
     };
   }
 
+  /**
+   * Trims context blocks and early turns and clamps max_tokens so the request fits
+   * this provider's context window. A PromptTooLargeError moves the fallback chain
+   * on to the next provider, which may have a larger window.
+   */
+  private fitToContextWindow(provider: LLMProvider, request: LLMRequest): FittedRequest {
+    const adapter = this.adapters.get(provider.adapter);
+    const fitted = fitMessagesToContextWindow(
+      getRequestMessages(request),
+      { provider: provider.key, context_window: provider.context_window, max_output_tokens: provider.max_tokens },
+      text => adapter.countTokens(text),
+      { max_tokens: request.max_tokens, on_overflow: request.on_overflow }
+    );
+
+    return {
+      request: { ...request, messages: fitted.messages, max_tokens: fitted.max_tokens },
+      prompt_tokens: fitted.prompt_tokens,
+      truncated_context: fitted.trimmed_blocks.length > 0 ? fitted.trimmed_blocks : undefined,
+      dropped_turns: fitted.dropped_turns > 0 ? fitted.dropped_turns : undefined
+    };
+  }
+
+  /**
+   * Sends the adapter-built request through the transport and reads the response
+   * within the provider's timeout. Transport and HTTP failures become classified
+   * LLMProviderErrors. For streams `read` returns the body, so the timeout covers
+   * time to first byte.
+   */
+  private async requestProvider<T>(
+    adapter: LLMProviderAdapter,
+    exchange: ProviderExchange,
+    read: (response: globalThis.Response) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const provider = exchange.provider;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, provider.timeout_ms);
+
+    // Caller cancellation (client disconnect) aborts the request; an open stream's body is cancelled by its reader
+    const onAbort = () => controller.abort();
+    if (signal) {
+      if (signal.aborted) controller.abort();
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    try {
+      let response: globalThis.Response;
+      try {
+        response = await this.transport.send(exchange, controller.signal);
+      } catch (error) {
+        if (error instanceof LLMProviderError) throw error; // already classified, e.g. a missing replay fixture
+        throw new LLMProviderError(
+          provider.key,
+          timedOut ? 'timeout' : adapter.classifyError({ error }),
+          timedOut
+            ? `Provider ${provider.name} timed out after ${provider.timeout_ms}ms`
+            : `Provider ${provider.name} request failed: ${error instanceof Error ? error.message : 'unknown error'}`
+        );
+      }
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new LLMProviderError(
+          provider.key,
+          adapter.classifyError({ status: response.status, body }),
+          `Provider ${provider.name} returned ${response.status}: ${response.statusText}`,
+          response.status,
+          this.parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      try {
+        return await read(response);
+      } catch (error) {
+        if (!timedOut) throw error;
+        throw new LLMProviderError(provider.key, 'timeout', `Provider ${provider.name} timed out after ${provider.timeout_ms}ms`);
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Retry-After is either delay seconds or an HTTP date
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private async logUsage(
+    provider: LLMProvider,
+    request: LLMRequest,
+    usage: { input_tokens: number; output_tokens: number },
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    const tokensUsed = usage.input_tokens + usage.output_tokens;
+    const cost = tokensUsed * provider.cost_per_token;
+    this.metrics.recordUsage(provider.key, request.task, usage.input_tokens, usage.output_tokens, cost);
+
+    await auditLogger.log({
+      trace_id: request.trace_id || uuidv4(),
+      action: 'llm.generate',
+      entity_type: 'llm_request',
+      entity_id: provider.name,
+      user_id: request.user_id,
+      payload_hash: crypto.createHash('sha256').update(conversationText(getRequestMessages(request))).digest('hex'),
+      metadata: { task: request.task, provider: provider.key, ...usage, tokens_used: tokensUsed, cost, ...metadata }
+    });
+
+    // Spend tracking must not fail a response the provider already produced
+    try {
+      await this.budget.recordUsage({
+        user_id: request.user_id,
+        task: request.task,
+        provider: provider.key,
+        tokens_used: tokensUsed,
+        cost
+      });
+    } catch (error) {
+      console.warn('Failed to record LLM usage:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  // A model name only means something to the provider it was requested for
+  private withRequestedModel(provider: LLMProvider, request: LLMRequest): LLMProvider {
+    return request.model && request.provider === provider.key ? { ...provider, model: request.model } : provider;
+  }
+
   private generateCacheKey(request: LLMRequest): string {
-    const key = `${request.provider || 'default'}_${request.prompt}_${request.max_tokens || 1000}_${request.temperature || 0.7}`;
+    // Keyed on the whole conversation, so the same question after different turns is a different entry.
+    // Task, output format and injection policy change what a valid answer is, so they're part of it too.
+    const key = [
+      `${request.provider || 'default'}${request.model ? `:${request.model}` : ''}`,
+      request.task || 'generate',
+      request.response_format || 'text',
+      request.injection_policy || 'strip',
+      conversationText(getRequestMessages(request)),
+      request.max_tokens || 1000,
+      request.temperature || 0.7
+    ].join('_');
     return crypto.createHash('sha256').update(key).digest('hex');
   }
 
-  private sanitizePrompt(prompt: string): string {
-    // Remove potential injection attempts
-    return prompt
-      .replace(/\b(ignore|forget|disregard)\s+(previous|above|all)\s+(instructions|prompts?)/gi, '[FILTERED]')
-      .replace(/\b(system|admin|root)\s+(prompt|instruction)/gi, '[FILTERED]')
-      .substring(0, 8000); // Limit prompt length
+  /**
+   * Applies the injection policy to the request's user turns; system prompts and
+   * assistant turns are ours. Flagged phrases are always stripped. High-risk input
+   * is rejected under `block`, and under `route` only the latest user turn is
+   * answered, delimited, with the restricted template and a smaller completion.
+   */
+  private async guardInput(request: LLMRequest): Promise<GuardedRequest> {
+    const messages = getRequestMessages(request);
+    const assessments = messages
+      .filter(message => message.role === 'user')
+      .map(message => assessInjectionRisk(message.content));
+    const riskiest = assessments.sort((a, b) => b.score - a.score)[0];
+    const sanitized = messages.map(message => ({
+      role: message.role,
+      content: message.role === 'user' ? stripInjections(message.content) : message.content
+    }));
+
+    if (!riskiest || riskiest.findings.length === 0) {
+      return { request: { ...request, messages: sanitized } };
+    }
+
+    const policy = request.injection_policy || 'strip';
+    const routed = riskiest.level === 'high' && policy === 'route';
+    await auditLogger.log({
+      trace_id: request.trace_id || uuidv4(),
+      action: 'llm.injection_detected',
+      entity_type: 'llm_request',
+      entity_id: request.task || 'generate',
+      user_id: request.user_id,
+      metadata: {
+        policy,
+        level: riskiest.level,
+        score: riskiest.score,
+        rules: riskiest.findings.map(finding => finding.rule)
+      }
+    });
+
+    if (riskiest.level === 'high' && policy === 'block') {
+      throw new InjectionBlockedError(riskiest);
+    }
+
+    const injection: InjectionOutcome = { level: riskiest.level, score: riskiest.score, action: routed ? 'routed' : 'stripped' };
+    if (!routed) {
+      return { request: { ...request, messages: sanitized }, injection };
+    }
+
+    const latest = sanitized.filter(message => message.role === 'user').pop()!;
+    return {
+      request: {
+        ...request,
+        messages: [
+          { role: 'system', content: PROMPT_TEMPLATES.RESTRICTED_ASSISTANT.trim() },
+          { role: 'user', content: delimitUntrusted(latest.content) }
+        ],
+        max_tokens: Math.min(request.max_tokens || this.RESTRICTED_MAX_TOKENS, this.RESTRICTED_MAX_TOKENS),
+        response_format: undefined
+      },
+      injection
+    };
   }
 
-  private async detectHallucination(content: string): Promise<number> {
-    // Simple heuristic-based hallucination detection
-    let score = 0;
-    
-    // Check for contradictory statements
-    if (content.includes('definitely') && content.includes('maybe')) score += 0.3;
-    
-    // Check for impossible claims
-    if (/\b(always|never)\b.*\b(sometimes|occasionally)\b/i.test(content)) score += 0.4;
-    
-    // Check for excessive certainty with vague information
-    if ((content.match(/\b(certainly|definitely|absolutely)\b/gi) || []).length > 3) score += 0.2;
-    
-    return Math.min(score, 1.0);
+  /**
+   * Checks an answer against the POI/event catalog. Below the minimum score,
+   * `reject` throws a GroundingError, `regenerate` asks once more with the
+   * flagged claims listed and keeps the better-grounded answer, and `annotate`
+   * only attaches the report.
+   */
+  private async applyGrounding(request: LLMRequest, messages: LLMMessage[], response: LLMResponse): Promise<LLMResponse> {
+    const minScore = request.min_grounding_score ?? this.DEFAULT_MIN_GROUNDING_SCORE;
+    const report = await this.grounding.check(response.content);
+    if (report.score >= minScore) {
+      return { ...response, grounding: report };
+    }
+
+    await auditLogger.log({
+      trace_id: request.trace_id || uuidv4(),
+      action: 'llm.ungrounded_output',
+      entity_type: 'llm_request',
+      entity_id: response.provider,
+      user_id: request.user_id,
+      metadata: {
+        task: request.task,
+        policy: request.grounding,
+        score: report.score,
+        flagged: report.flagged.map(claim => ({ type: claim.type, text: claim.text, entity_id: claim.entity_id }))
+      }
+    });
+
+    if (request.grounding === 'reject') {
+      throw new GroundingError(report, minScore);
+    }
+
+    if (request.grounding === 'regenerate') {
+      const retry = await this.generate({
+        ...request,
+        messages: messages.concat(
+          { role: 'assistant', content: response.content },
+          { role: 'user', content: buildGroundingCorrection(report) }
+        ),
+        grounding: 'annotate',
+        cache_ttl: 0
+      });
+
+      if (retry.grounding && retry.grounding.score > report.score) {
+        return { ...retry, grounding_regenerated: true };
+      }
+    }
+
+    return { ...response, grounding: report };
   }
 
   // REST API endpoints
   async handleGenerate(req: Request, res: Response): Promise<void> {
     const traceId = req.headers['x-trace-id'] as string || uuidv4();
+
+    if (req.body?.stream === true || String(req.headers.accept || '').includes('text/event-stream')) {
+      return this.handleGenerateStream(req, res);
+    }
     
     try {
-      const request: LLMRequest = req.body;
+      const request = this.parseGenerateRequest(req, traceId);
       const response = await this.generate(request);
       
       res.json(response);
+    } catch (error) {
+      this.sendGenerationError(res, error, traceId);
+    }
+  }
+
+  // Body: { task, variables }, plus optional grounding and min_grounding_score
+  async handleRunTask(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    const { task, variables, grounding, min_grounding_score } = req.body || {};
+
+    if (typeof task !== 'string' || (variables !== undefined && (typeof variables !== 'object' || variables === null || Array.isArray(variables)))) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: 'task is required and variables must be an object',
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+    if (!isPromptTask(task)) {
+      this.sendGenerationError(res, new UnknownTaskError(task), traceId);
+      return;
+    }
+
+    try {
+      const result = await this.runTask(task, variables || {}, {
+        user_id: req.user?.id,
+        trace_id: traceId,
+        grounding,
+        min_grounding_score
+      });
+
+      res.json(result);
+    } catch (error) {
+      this.sendGenerationError(res, error, traceId);
+    }
+  }
+
+  // Admin: effective route per task and the overrides currently applied
+  async handleGetRouting(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    if (!this.requireAdmin(req, res, traceId)) return;
+
+    res.json({ routes: this.router.listRoutes(), overrides: this.router.getOverrides() });
+  }
+
+  // Admin: replace the routing overrides ({ overrides: { [task]: RoutingOverride } }); takes effect for the next request
+  async handleUpdateRouting(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    if (!this.requireAdmin(req, res, traceId)) return;
+
+    const overrides = req.body?.overrides;
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: 'overrides must be an object keyed by task',
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    try {
+      const previous = this.router.getOverrides();
+      this.setRoutingOverrides(overrides);
+
+      await auditLogger.log({
+        trace_id: traceId,
+        action: 'llm.routing_updated',
+        entity_type: 'llm_routing',
+        entity_id: Object.keys(overrides).join(',') || 'none',
+        user_id: req.user!.id,
+        metadata: { previous, overrides }
+      });
+
+      res.json({ routes: this.router.listRoutes(), overrides: this.router.getOverrides() });
+    } catch (error) {
+      if (error instanceof RoutingOverrideError) {
+        res.status(400).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            trace_id: traceId,
+            details: error.errors
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: {
+          code: 'ROUTING_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          trace_id: traceId
+        }
+      });
+    }
+  }
+
+  // Server-Sent Events: `delta` events with text, then one `done` event with usage and cost (or `error`)
+  async handleGenerateStream(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    const controller = new AbortController();
+
+    let request: LLMRequest;
+    try {
+      request = this.parseGenerateRequest(req, traceId);
+    } catch (error) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: error instanceof Error ? error.message : 'Invalid request',
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    // Stop generating (and paying for) tokens nobody will read
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // disable proxy buffering
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      for await (const event of this.generateStream(request, { signal: controller.signal })) {
+        if (event.type === 'delta') {
+          send('delta', { content: event.content });
+        } else {
+          send('done', event.response);
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        send('error', {
+          error: {
+            code: error instanceof BudgetExceededError || error instanceof PromptTooLargeError || error instanceof InjectionBlockedError
+              ? error.code
+              : 'LLM_ERROR',
+            message: error instanceof Error ? error.message : 'Unknown error',
+            trace_id: traceId
+          }
+        });
+      }
+    }
+
+    res.end();
+  }
+
+  // Admin: latency, token, cost, cache and error metrics in Prometheus text format
+  async handleMetrics(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    if (!this.requireAdmin(req, res, traceId)) return;
+
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(this.metrics.renderPrometheus());
+  }
+
+  // Admin: cache hit/miss counters and tier sizes
+  async handleCacheStats(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    if (!this.requireAdmin(req, res, traceId)) return;
+
+    res.json(this.cache.getStats());
+  }
+
+  // Admin: drop cached responses for a prompt (sha256 of the prompt text) and/or a provider key
+  async handlePurgeCache(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    if (!this.requireAdmin(req, res, traceId)) return;
+
+    const { prompt_hash, provider } = { ...req.query, ...req.body } as { prompt_hash?: string; provider?: string };
+    if ((!prompt_hash && !provider) || (prompt_hash && !/^[a-f0-9]{64}$/.test(prompt_hash))) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: 'prompt_hash (64 hex characters) or provider is required',
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    try {
+      const purged = await this.cache.purge({ prompt_hash, provider });
+
+      await auditLogger.log({
+        trace_id: traceId,
+        action: 'llm.cache_purged',
+        entity_type: 'llm_cache',
+        entity_id: prompt_hash || provider || 'unknown',
+        user_id: req.user!.id,
+        metadata: { prompt_hash, provider, ...purged }
+      });
+
+      res.json({ purged });
     } catch (error) {
       res.status(500).json({
         error: {
-          code: 'LLM_ERROR',
+          code: 'CACHE_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          trace_id: traceId
+        }
+      });
+    }
+  }
+
+  /**
+   * Admin: LLM spend over a date range. `from`/`to` are inclusive YYYY-MM-DD dates (UTC),
+   * `group_by` is a comma-separated subset of provider, task, user_id.
+   */
+  async handleSpendReport(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+    if (!this.requireAdmin(req, res, traceId)) return;
+
+    const { from, to, group_by, user_id, task, provider } = req.query as Record<string, string | undefined>;
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    const groupBy = (group_by || 'provider,task,user_id').split(',').map(value => value.trim()) as UsageDimension[];
+    const validDimensions: UsageDimension[] = ['provider', 'task', 'user_id'];
+
+    if (
+      !from || !to || !datePattern.test(from) || !datePattern.test(to) || isNaN(Date.parse(from)) ||
+      isNaN(Date.parse(to)) || from > to || groupBy.some(dimension => !validDimensions.includes(dimension))
+    ) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: 'from and to (YYYY-MM-DD, from <= to) are required; group_by may contain provider, task, user_id',
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    try {
+      const end = new Date(Date.parse(to) + 24 * 60 * 60 * 1000);
+      const report = await this.budget.getSpendReport(
+        { from: new Date(from).toISOString(), to: end.toISOString() },
+        groupBy,
+        { user_id, task, provider }
+      );
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({
+        error: {
+          code: 'REPORT_ERROR',
           message: error instanceof Error ? error.message : 'Unknown error',
           trace_id: traceId
         }
@@ -312,29 +1309,42 @@ class LLMOrchestrator {
     
     try {
       const { text, schema } = req.body;
+
+      if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'schema must be a JSON Schema object',
+            trace_id: traceId
+          }
+        });
+        return;
+      }
       
-      const prompt = `Extract structured data from the following text according to this schema: ${JSON.stringify(schema)}\n\nText: ${text}\n\nReturn only valid JSON:`;
+      const prompt = `Extract structured data from the following text.\n\nText: ${PromptBuilder.contextBlock('text', String(text ?? ''))}`;
       
-      const response = await this.generate({
+      const { data, response } = await this.generateStructured<unknown>({
         prompt,
         provider: 'local', // Use local LLM for cheap extraction
+        user_id: req.user?.id,
+        trace_id: traceId,
         max_tokens: 1000,
         temperature: 0.1
-      });
-      
-      try {
-        const extracted = JSON.parse(response.content);
-        res.json({ extracted, metadata: response });
-      } catch (parseError) {
+      }, schema as JsonSchema);
+
+      res.json({ extracted: data, metadata: response });
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
         res.status(400).json({
           error: {
             code: 'INVALID_JSON',
-            message: 'Failed to parse extracted data as JSON',
+            message: error.message,
             trace_id: traceId
           }
         });
+        return;
       }
-    } catch (error) {
+
       res.status(500).json({
         error: {
           code: 'EXTRACTION_ERROR',
@@ -344,6 +1354,128 @@ class LLMOrchestrator {
       });
     }
   }
+
+  /**
+   * Body of a generate call. Only the prompt and output settings come from the client; routing,
+   * model, caching, task and injection policy are the server's, and budgets are tracked against
+   * the authenticated caller, never a client-supplied id.
+   */
+  private parseGenerateRequest(req: Request, traceId: string): LLMRequest {
+    const {
+      prompt, messages, max_tokens, temperature, stream, on_overflow, response_format, grounding, min_grounding_score
+    } = req.body || {};
+    const request: LLMRequest = {
+      prompt,
+      messages,
+      max_tokens,
+      temperature,
+      stream,
+      on_overflow,
+      response_format,
+      grounding,
+      min_grounding_score,
+      task: this.GENERATE_TASK,
+      injection_policy: this.GENERATE_INJECTION_POLICY,
+      user_id: req.user?.id,
+      trace_id: traceId
+    };
+    if (request.messages !== undefined) {
+      request.messages = validateMessages(request.messages);
+    }
+    getRequestMessages(request); // prompt or messages is required
+    return request;
+  }
+
+  // Error responses shared by the generate and task endpoints
+  private sendGenerationError(res: Response, error: unknown, traceId: string): void {
+    if (error instanceof InvalidMessagesError) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: error.message,
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    if (error instanceof BudgetExceededError || error instanceof PromptTooLargeError) {
+      res.status(error instanceof BudgetExceededError ? 429 : 413).json({
+        error: {
+          code: error.code,
+          message: error.message,
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    if (error instanceof InjectionBlockedError || error instanceof PromptVariablesError) {
+      res.status(400).json({
+        error: {
+          code: error.code,
+          message: error.message,
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    if (error instanceof UnknownTaskError) {
+      res.status(404).json({
+        error: {
+          code: error.code,
+          message: error.message,
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    if (error instanceof StructuredOutputError) {
+      res.status(422).json({
+        error: {
+          code: 'INVALID_JSON',
+          message: error.message,
+          trace_id: traceId
+        }
+      });
+      return;
+    }
+
+    if (error instanceof GroundingError) {
+      res.status(422).json({
+        error: {
+          code: error.code,
+          message: error.message,
+          trace_id: traceId,
+          grounding: error.report
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: {
+        code: 'LLM_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        trace_id: traceId
+      }
+    });
+  }
+
+  private requireAdmin(req: Request, res: Response, traceId: string): boolean {
+    if (isAdmin(req.user)) return true;
+
+    res.status(req.user ? 403 : 401).json({
+      error: {
+        code: req.user ? 'FORBIDDEN' : 'UNAUTHORIZED',
+        message: req.user ? 'Admin access required' : 'Authentication required',
+        trace_id: traceId
+      }
+    });
+    return false;
+  }
 }
 
 export const llmOrchestrator = new LLMOrchestrator();
@@ -0,0 +1,124 @@
+import type { LLMProvider, LLMRequest } from '../llm-orchestrator';
+import type { ServerSentEvent } from './sse';
+import { TOKENIZER_PROFILES, TokenizerProfile, estimateTokens } from '../llm-tokenizer';
+
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface ParsedProviderResponse {
+  content: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  tokens_used?: number; // total as reported by the provider; absent when it doesn't report usage
+  model?: string;
+}
+
+export interface ProviderStreamChunk {
+  delta?: string; // newly generated text
+  input_tokens?: number;
+  output_tokens?: number; // running or final total, whichever the provider sends
+  error?: { type?: string; message: string };
+  done?: boolean;
+}
+
+export type LLMErrorClass =
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'timeout'
+  | 'server_error'
+  | 'network'
+  | 'auth'
+  | 'invalid_request'
+  | 'content_filtered'
+  | 'circuit_open' // every provider in the chain was skipped as unhealthy
+  | 'unknown';
+
+// Error classes worth retrying or failing over on; the rest would fail the same way again
+export const RETRYABLE_ERROR_CLASSES: LLMErrorClass[] = ['rate_limited', 'timeout', 'server_error', 'network'];
+
+export interface ProviderErrorDetails {
+  status?: number; // HTTP status when the provider answered
+  body?: any; // parsed error body, if any
+  error?: unknown; // thrown error when the request never completed
+}
+
+/**
+ * Everything provider-specific about talking to an LLM API. The orchestrator only
+ * sends the built request and hands the raw JSON back to the adapter.
+ */
+export interface LLMProviderAdapter {
+  readonly key: string;
+  buildRequest(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest;
+  parseResponse(data: any): ParsedProviderResponse;
+  countTokens(text: string): number;
+  classifyError(details: ProviderErrorDetails): LLMErrorClass;
+
+  // Optional: implemented by adapters whose API streams tokens over Server-Sent Events
+  buildStreamRequest?(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest;
+  parseStreamEvent?(event: ServerSentEvent): ProviderStreamChunk | null;
+}
+
+export class LLMProviderError extends Error {
+  readonly code = 'PROVIDER_ERROR';
+
+  constructor(
+    public readonly provider: string,
+    public readonly errorClass: LLMErrorClass,
+    message: string,
+    public readonly status?: number,
+    public readonly retry_after_ms?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    Object.setPrototypeOf(this, LLMProviderError.prototype);
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_ERROR_CLASSES.includes(this.errorClass);
+  }
+}
+
+/**
+ * Shared defaults: a characters-per-token estimate and HTTP status based error
+ * classification. Adapters override what their API does differently.
+ */
+export abstract class BaseProviderAdapter implements LLMProviderAdapter {
+  abstract readonly key: string;
+  protected readonly TOKENIZER: TokenizerProfile = TOKENIZER_PROFILES.default;
+  protected readonly DEFAULT_MAX_TOKENS = 1000;
+  protected readonly DEFAULT_TEMPERATURE = 0.7;
+
+  abstract buildRequest(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest;
+  abstract parseResponse(data: any): ParsedProviderResponse;
+
+  countTokens(text: string): number {
+    return estimateTokens(text, this.TOKENIZER);
+  }
+
+  classifyError(details: ProviderErrorDetails): LLMErrorClass {
+    if (details.status === undefined) {
+      const name = details.error instanceof Error ? details.error.name : '';
+      if (name === 'AbortError' || name === 'TimeoutError') return 'timeout';
+      return details.error ? 'network' : 'unknown';
+    }
+
+    const status = details.status;
+    if (status === 429) return 'rate_limited';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 408 || status === 504) return 'timeout';
+    if (status >= 500) return 'server_error';
+    if (status >= 400) return 'invalid_request';
+    return 'unknown';
+  }
+
+  protected maxTokens(request: LLMRequest): number {
+    return request.max_tokens || this.DEFAULT_MAX_TOKENS;
+  }
+
+  protected temperature(request: LLMRequest): number {
+    return request.temperature ?? this.DEFAULT_TEMPERATURE;
+  }
+}
@@ -0,0 +1,93 @@
+import type { LLMProvider, LLMRequest } from '../llm-orchestrator';
+import {
+  BaseProviderAdapter,
+  LLMErrorClass,
+  ParsedProviderResponse,
+  ProviderErrorDetails,
+  ProviderHttpRequest,
+  ProviderStreamChunk
+} from './adapter';
+import { ServerSentEvent, parseEventData } from './sse';
+import { TOKENIZER_PROFILES } from '../llm-tokenizer';
+import { getRequestMessages, mergeConsecutiveTurns, splitSystemPrompt } from '../llm-messages';
+
+// Anthropic Messages API
+export class AnthropicAdapter extends BaseProviderAdapter {
+  readonly key = 'anthropic';
+  protected readonly TOKENIZER = TOKENIZER_PROFILES.anthropic;
+  private readonly DEFAULT_MODEL = 'claude-3-sonnet-20240229';
+  private readonly API_VERSION = '2023-06-01';
+
+  // System prompts go in the top-level `system` field; turns must alternate, starting with the user
+  buildRequest(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest {
+    const { system, turns } = splitSystemPrompt(getRequestMessages(request));
+
+    return {
+      url: provider.endpoint,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': provider.api_key,
+        'anthropic-version': this.API_VERSION
+      },
+      body: {
+        model: provider.model || this.DEFAULT_MODEL,
+        max_tokens: this.maxTokens(request),
+        temperature: this.temperature(request),
+        system,
+        messages: mergeConsecutiveTurns(turns)
+      }
+    };
+  }
+
+  buildStreamRequest(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest {
+    const httpRequest = this.buildRequest(provider, request);
+    return { ...httpRequest, body: { ...(httpRequest.body as object), stream: true } };
+  }
+
+  parseStreamEvent(event: ServerSentEvent): ProviderStreamChunk | null {
+    const data = parseEventData(event);
+    if (!data) return null;
+
+    switch (data.type) {
+      case 'message_start':
+        return { input_tokens: data.message?.usage?.input_tokens };
+      case 'content_block_delta':
+        return data.delta?.type === 'text_delta' ? { delta: data.delta.text } : null;
+      case 'message_delta':
+        return { output_tokens: data.usage?.output_tokens };
+      case 'message_stop':
+        return { done: true };
+      case 'error':
+        return { error: { type: data.error?.type, message: data.error?.message || 'stream error' } };
+      default:
+        return null; // ping, content_block_start/stop
+    }
+  }
+
+  parseResponse(data: any): ParsedProviderResponse {
+    const content = Array.isArray(data?.content)
+      ? data.content.filter((block: any) => block?.type === 'text').map((block: any) => block.text).join('')
+      : '';
+    const inputTokens = data?.usage?.input_tokens;
+    const outputTokens = data?.usage?.output_tokens;
+
+    return {
+      content,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      tokens_used: inputTokens !== undefined || outputTokens !== undefined
+        ? (inputTokens || 0) + (outputTokens || 0)
+        : undefined,
+      model: data?.model
+    };
+  }
+
+  classifyError(details: ProviderErrorDetails): LLMErrorClass {
+    const type = details.body?.error?.type;
+    // 529: API temporarily overloaded
+    if (details.status === 529 || type === 'overloaded_error') return 'server_error';
+    if (type === 'rate_limit_error') return 'rate_limited';
+    if (type === 'authentication_error' || type === 'permission_error') return 'auth';
+    return super.classifyError(details);
+  }
+}
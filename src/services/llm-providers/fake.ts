@@ -0,0 +1,119 @@
+import { readFileSync } from 'fs';
+import { getRequestMessages } from '../llm-messages';
+import { SCHEMA_INSTRUCTION } from '../llm-structured-output';
+import { sampleJsonSchema } from '../../utils/json-schema';
+import type { LLMTransport, ProviderExchange } from './transport';
+
+// First matching rule answers; rules with `times` stop matching once used up
+export interface FakeResponseRule {
+  match?: string; // regex tested (case-insensitively) against the latest user message
+  task?: string;
+  provider?: string; // provider key
+  reply?: string;
+  json?: unknown; // reply serialized as JSON
+  status?: number; // answer with this HTTP error instead, e.g. 429 or 500
+  times?: number;
+}
+
+// A script file is a JSON array of rules
+export function loadFakeScript(file: string): FakeResponseRule[] {
+  const rules = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(rules)) {
+    throw new Error(`LLM fake script ${file} must be a JSON array of rules`);
+  }
+  return rules;
+}
+
+/**
+ * In-process stand-in for every provider API. Scripted rules give canned replies
+ * or errors; anything else gets a generated reply: a minimal valid object for
+ * structured prompts, `{}` in JSON mode, otherwise a short echo of the prompt.
+ * Replies are encoded in the format the provider's adapter parses.
+ */
+export class ScriptedLLMTransport implements LLMTransport {
+  readonly mode = 'fake';
+  readonly streaming = false;
+  readonly calls: ProviderExchange[] = [];
+
+  constructor(private rules: FakeResponseRule[] = []) {}
+
+  addRule(rule: FakeResponseRule): void {
+    this.rules.push({ ...rule });
+  }
+
+  reset(rules: FakeResponseRule[] = []): void {
+    this.rules = rules;
+    this.calls.length = 0;
+  }
+
+  async send(exchange: ProviderExchange): Promise<globalThis.Response> {
+    this.calls.push(exchange);
+
+    const messages = getRequestMessages(exchange.request);
+    const prompt = messages.filter(message => message.role === 'user').pop()?.content || '';
+    const rule = this.findRule(exchange, prompt);
+
+    if (rule?.status && rule.status >= 400) {
+      return this.json(rule.status, { error: { type: 'fake_error', message: `Scripted ${rule.status} from the fake LLM provider` } });
+    }
+
+    const content = rule?.json !== undefined
+      ? JSON.stringify(rule.json)
+      : rule?.reply ?? this.generateReply(exchange, prompt);
+    const inputTokens = this.countWords(messages.map(message => message.content).join(' '));
+    return this.json(200, this.encode(exchange.provider.adapter, content, inputTokens, this.countWords(content)));
+  }
+
+  private findRule(exchange: ProviderExchange, prompt: string): FakeResponseRule | undefined {
+    const rule = this.rules.filter(candidate =>
+      (candidate.times === undefined || candidate.times > 0) &&
+      (!candidate.task || candidate.task === exchange.request.task) &&
+      (!candidate.provider || candidate.provider === exchange.provider.key) &&
+      (!candidate.match || new RegExp(candidate.match, 'i').test(prompt))
+    )[0];
+
+    if (rule && rule.times !== undefined) rule.times--;
+    return rule;
+  }
+
+  private generateReply(exchange: ProviderExchange, prompt: string): string {
+    const schemaAt = prompt.lastIndexOf(SCHEMA_INSTRUCTION);
+    if (schemaAt !== -1) {
+      const schemaLine = prompt.slice(schemaAt + SCHEMA_INSTRUCTION.length).trim().split('\n')[0];
+      try {
+        return JSON.stringify(sampleJsonSchema(JSON.parse(schemaLine)));
+      } catch (error) {
+        return '{}';
+      }
+    }
+    if (exchange.request.response_format === 'json') return '{}';
+
+    const firstLine = prompt.trim().split('\n')[0].slice(0, 80);
+    return `Fake response from ${exchange.provider.name} to: ${firstLine}`;
+  }
+
+  // Response bodies as each adapter's parseResponse expects them
+  private encode(adapter: string, content: string, inputTokens: number, outputTokens: number): unknown {
+    switch (adapter) {
+      case 'anthropic':
+        return { content: [{ type: 'text', text: content }], usage: { input_tokens: inputTokens, output_tokens: outputTokens } };
+      case 'ollama':
+        return { response: content, prompt_eval_count: inputTokens, eval_count: outputTokens, done: true };
+      case 'rocket':
+        return { text: content, usage: { total_tokens: inputTokens + outputTokens } };
+      default:
+        return {
+          choices: [{ message: { role: 'assistant', content } }],
+          usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens }
+        };
+    }
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(word => word.length > 0).length;
+  }
+
+  private json(status: number, body: unknown): globalThis.Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }
+}
@@ -0,0 +1,47 @@
+import type { LLMProvider, LLMRequest } from '../llm-orchestrator';
+import { BaseProviderAdapter, ParsedProviderResponse, ProviderHttpRequest } from './adapter';
+import { TOKENIZER_PROFILES } from '../llm-tokenizer';
+import { getRequestMessages, renderTranscript, splitSystemPrompt } from '../llm-messages';
+
+// Ollama-style local endpoint (/api/generate) with streaming disabled
+export class OllamaAdapter extends BaseProviderAdapter {
+  readonly key = 'ollama';
+  protected readonly TOKENIZER = TOKENIZER_PROFILES.llama;
+  private readonly DEFAULT_MODEL = 'llama3';
+
+  // /api/generate takes the system prompt separately and earlier turns as a transcript
+  buildRequest(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest {
+    const { system, turns } = splitSystemPrompt(getRequestMessages(request));
+
+    return {
+      url: provider.endpoint,
+      headers: { 'Content-Type': 'application/json' },
+      body: {
+        model: provider.model || this.DEFAULT_MODEL,
+        system,
+        prompt: renderTranscript(turns),
+        stream: false,
+        format: request.response_format === 'json' ? 'json' : undefined,
+        options: {
+          num_predict: this.maxTokens(request),
+          temperature: this.temperature(request)
+        }
+      }
+    };
+  }
+
+  parseResponse(data: any): ParsedProviderResponse {
+    const inputTokens = data?.prompt_eval_count;
+    const outputTokens = data?.eval_count;
+
+    return {
+      content: data?.response || '',
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      tokens_used: inputTokens !== undefined || outputTokens !== undefined
+        ? (inputTokens || 0) + (outputTokens || 0)
+        : undefined,
+      model: data?.model
+    };
+  }
+}
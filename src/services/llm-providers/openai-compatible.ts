@@ -0,0 +1,88 @@
+import type { LLMProvider, LLMRequest } from '../llm-orchestrator';
+import {
+  BaseProviderAdapter,
+  LLMErrorClass,
+  ParsedProviderResponse,
+  ProviderErrorDetails,
+  ProviderHttpRequest,
+  ProviderStreamChunk
+} from './adapter';
+import { ServerSentEvent, parseEventData } from './sse';
+import { TOKENIZER_PROFILES } from '../llm-tokenizer';
+import { getRequestMessages } from '../llm-messages';
+
+/**
+ * OpenAI chat completions, and the many services that mirror it
+ * (Azure OpenAI, OpenRouter, vLLM, LM Studio).
+ */
+export class OpenAICompatibleAdapter extends BaseProviderAdapter {
+  readonly key = 'openai';
+  protected readonly TOKENIZER = TOKENIZER_PROFILES.openai;
+  private readonly DEFAULT_MODEL = 'gpt-4';
+
+  buildRequest(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (provider.api_key) {
+      headers['Authorization'] = `Bearer ${provider.api_key}`;
+    }
+
+    return {
+      url: provider.endpoint,
+      headers,
+      body: {
+        model: provider.model || this.DEFAULT_MODEL,
+        messages: getRequestMessages(request), // system, user and assistant roles map one to one
+        max_tokens: this.maxTokens(request),
+        temperature: this.temperature(request),
+        response_format: request.response_format === 'json' ? { type: 'json_object' } : undefined
+      }
+    };
+  }
+
+  buildStreamRequest(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest {
+    const httpRequest = this.buildRequest(provider, request);
+    return {
+      ...httpRequest,
+      // include_usage adds a final chunk with token counts
+      body: { ...(httpRequest.body as object), stream: true, stream_options: { include_usage: true } }
+    };
+  }
+
+  parseStreamEvent(event: ServerSentEvent): ProviderStreamChunk | null {
+    if (event.data === '[DONE]') {
+      return { done: true };
+    }
+
+    const data = parseEventData(event);
+    if (!data) return null;
+    if (data.error) {
+      return { error: { type: data.error.code || data.error.type, message: data.error.message || 'stream error' } };
+    }
+
+    return {
+      delta: data.choices?.[0]?.delta?.content || undefined,
+      input_tokens: data.usage?.prompt_tokens,
+      output_tokens: data.usage?.completion_tokens
+    };
+  }
+
+  parseResponse(data: any): ParsedProviderResponse {
+    const usage = data?.usage;
+    return {
+      content: data?.choices?.[0]?.message?.content || '',
+      input_tokens: usage?.prompt_tokens,
+      output_tokens: usage?.completion_tokens,
+      tokens_used: usage?.total_tokens,
+      model: data?.model
+    };
+  }
+
+  classifyError(details: ProviderErrorDetails): LLMErrorClass {
+    const code = details.body?.error?.code;
+    // OpenAI reports an exhausted quota as a 429 that no amount of retrying will fix
+    if (code === 'insufficient_quota') return 'quota_exceeded';
+    if (code === 'content_filter' || code === 'content_policy_violation') return 'content_filtered';
+    if (code === 'context_length_exceeded') return 'invalid_request';
+    return super.classifyError(details);
+  }
+}
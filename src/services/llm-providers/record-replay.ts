@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LLMProviderError } from './adapter';
+import { conversationText, getRequestMessages } from '../llm-messages';
+import type { LLMTransport, ProviderExchange } from './transport';
+
+// A recorded provider call. Headers are left out: they carry API keys.
+export interface LLMFixture {
+  provider: string; // provider key
+  prompt_hash: string;
+  request: { url: string; body: unknown };
+  response: { status: number; body: unknown };
+  recorded_at: string;
+}
+
+// The conversation and output mode, which is what decides a provider's answer
+export function promptHash(exchange: ProviderExchange): string {
+  const key = JSON.stringify([conversationText(getRequestMessages(exchange.request)), exchange.request.response_format || null]);
+  return crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+}
+
+// Fixtures as <dir>/<provider key>/<prompt hash>.json, meant to be committed next to the tests using them
+export class LLMFixtureStore {
+  constructor(private dir: string) {}
+
+  async read(provider: string, hash: string): Promise<LLMFixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.fixturePath(provider, hash), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async write(fixture: LLMFixture): Promise<void> {
+    const file = this.fixturePath(fixture.provider, fixture.prompt_hash);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+  }
+
+  private fixturePath(provider: string, hash: string): string {
+    return path.join(this.dir, provider, `${hash}.json`);
+  }
+}
+
+/**
+ * Calls providers for real and saves each HTTP response, errors included, so a
+ * replay takes the same retry and fallback path. Streams are recorded as one
+ * complete response.
+ */
+export class RecordingTransport implements LLMTransport {
+  readonly mode = 'record';
+  readonly streaming = false;
+
+  constructor(private inner: LLMTransport, private store: LLMFixtureStore) {}
+
+  async send(exchange: ProviderExchange, signal?: AbortSignal): Promise<globalThis.Response> {
+    const response = await this.inner.send(exchange, signal);
+    // Read once and hand back a copy: undici can leave the original unreadable after a clone() is consumed
+    const text = await response.text();
+    let body: unknown = null;
+    try {
+      body = JSON.parse(text);
+    } catch (error) {
+      body = null;
+    }
+
+    await this.store.write({
+      provider: exchange.provider.key,
+      prompt_hash: promptHash(exchange),
+      request: { url: exchange.http.url, body: exchange.http.body },
+      response: { status: response.status, body },
+      recorded_at: new Date().toISOString()
+    });
+    return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+}
+
+// Answers from recorded fixtures; a prompt without one fails instead of reaching the network
+export class ReplayTransport implements LLMTransport {
+  readonly mode = 'replay';
+  readonly streaming = false;
+
+  constructor(private store: LLMFixtureStore) {}
+
+  async send(exchange: ProviderExchange): Promise<globalThis.Response> {
+    const hash = promptHash(exchange);
+    const fixture = await this.store.read(exchange.provider.key, hash);
+    if (!fixture) {
+      throw new LLMProviderError(
+        exchange.provider.key,
+        'invalid_request',
+        `No LLM fixture for ${exchange.provider.key} prompt ${hash}; record one with LLM_MODE=record`
+      );
+    }
+
+    return new Response(JSON.stringify(fixture.response.body), {
+      status: fixture.response.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
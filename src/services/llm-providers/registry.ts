@@ -0,0 +1,40 @@
+import { LLMProviderAdapter } from './adapter';
+import { RocketAdapter } from './rocket';
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import { AnthropicAdapter } from './anthropic';
+import { OllamaAdapter } from './ollama';
+
+export class ProviderAdapterRegistry {
+  private adapters: Map<string, LLMProviderAdapter> = new Map();
+
+  register(adapter: LLMProviderAdapter): void {
+    this.adapters.set(adapter.key, adapter);
+  }
+
+  get(key: string): LLMProviderAdapter {
+    const adapter = this.adapters.get(key);
+    if (!adapter) {
+      throw new Error(`No LLM provider adapter registered for '${key}'`);
+    }
+    return adapter;
+  }
+
+  has(key: string): boolean {
+    return this.adapters.has(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+export function createDefaultAdapterRegistry(): ProviderAdapterRegistry {
+  const registry = new ProviderAdapterRegistry();
+  registry.register(new RocketAdapter());
+  registry.register(new OpenAICompatibleAdapter());
+  registry.register(new AnthropicAdapter());
+  registry.register(new OllamaAdapter());
+  return registry;
+}
+
+export const providerAdapters = createDefaultAdapterRegistry();
@@ -0,0 +1,30 @@
+import type { LLMProvider, LLMRequest } from '../llm-orchestrator';
+import { BaseProviderAdapter, ParsedProviderResponse, ProviderHttpRequest } from './adapter';
+import { getRequestMessages, renderTranscript } from '../llm-messages';
+
+// Rocket AI: plain prompt completion API; conversations are sent as a transcript
+export class RocketAdapter extends BaseProviderAdapter {
+  readonly key = 'rocket';
+
+  buildRequest(provider: LLMProvider, request: LLMRequest): ProviderHttpRequest {
+    return {
+      url: provider.endpoint,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${provider.api_key}`
+      },
+      body: {
+        prompt: renderTranscript(getRequestMessages(request)),
+        max_tokens: this.maxTokens(request),
+        temperature: this.temperature(request)
+      }
+    };
+  }
+
+  parseResponse(data: any): ParsedProviderResponse {
+    return {
+      content: data?.text || data?.content || '',
+      tokens_used: data?.usage?.total_tokens
+    };
+  }
+}
@@ -0,0 +1,126 @@
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+export interface ServerSentEventOptions {
+  signal?: AbortSignal; // cancels the body, e.g. when the client disconnects
+  idle_timeout_ms?: number; // longest wait for the next chunk
+  total_timeout_ms?: number; // longest the whole stream may take
+}
+
+export class StreamTimeoutError extends Error {
+  constructor(public readonly kind: 'idle' | 'total', public readonly timeout_ms: number) {
+    super(kind === 'idle' ? `no data for ${timeout_ms}ms` : `stream took longer than ${timeout_ms}ms`);
+    this.name = 'StreamTimeoutError';
+    Object.setPrototypeOf(this, StreamTimeoutError.prototype);
+  }
+}
+
+/**
+ * Splits a streamed HTTP body into Server-Sent Events. Comment lines and
+ * `id`/`retry` fields are ignored; multi-line `data` fields are joined with '\n'.
+ * A stalled or overlong stream ends with a StreamTimeoutError, and an abort with
+ * the signal's reason; either way the body is cancelled.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  options: ServerSentEventOptions = {}
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const deadline = options.total_timeout_ms !== undefined ? Date.now() + options.total_timeout_ms : Infinity;
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await readChunk(reader, options, deadline);
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || '';
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) yield event;
+      }
+    }
+
+    buffer += decoder.decode();
+    const last = parseEventBlock(buffer);
+    if (last) yield last;
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function readChunk(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  options: ServerSentEventOptions,
+  deadline: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  const { signal, idle_timeout_ms } = options;
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) {
+    return Promise.reject(new StreamTimeoutError('total', options.total_timeout_ms!));
+  }
+
+  return new Promise((resolve, reject) => {
+    const idle = idle_timeout_ms !== undefined && idle_timeout_ms < remaining;
+    const wait = idle ? idle_timeout_ms! : remaining;
+    const onAbort = () => settle(() => reject(signal!.reason));
+    const timer = isFinite(wait)
+      ? setTimeout(() => settle(() => reject(new StreamTimeoutError(idle ? 'idle' : 'total', idle ? wait : options.total_timeout_ms!))), wait)
+      : undefined;
+    let settled = false;
+
+    function settle(finish: () => void): void {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      finish();
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    reader.read().then(
+      result => settle(() => resolve(result)),
+      error => settle(() => reject(error))
+    );
+  });
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+// An event's JSON payload, or null when a provider sent a malformed chunk (callers skip it)
+export function parseEventData(event: ServerSentEvent): any | null {
+  try {
+    return JSON.parse(event.data);
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,62 @@
+import type { LLMProvider, LLMRequest } from '../llm-orchestrator';
+import type { ProviderHttpRequest } from './adapter';
+import { LLMFixtureStore, RecordingTransport, ReplayTransport } from './record-replay';
+import { ScriptedLLMTransport, loadFakeScript } from './fake';
+import { auditLogger } from '../../utils/audit-logger';
+
+export type LLMTransportMode = 'live' | 'record' | 'replay' | 'fake';
+
+// One provider call: the request as fitted for the provider and the HTTP request its adapter built
+export interface ProviderExchange {
+  provider: LLMProvider;
+  request: LLMRequest;
+  http: ProviderHttpRequest;
+}
+
+/**
+ * How the orchestrator reaches providers. Live calls go over fetch; the other
+ * modes answer from fixtures or a script so nothing needs API keys.
+ */
+export interface LLMTransport {
+  readonly mode: LLMTransportMode;
+  readonly streaming: boolean; // false: streams are served from one complete response
+  send(exchange: ProviderExchange, signal?: AbortSignal): Promise<globalThis.Response>;
+}
+
+export class FetchTransport implements LLMTransport {
+  readonly mode = 'live';
+  readonly streaming = true;
+
+  async send(exchange: ProviderExchange, signal?: AbortSignal): Promise<globalThis.Response> {
+    return fetch(exchange.http.url, {
+      method: 'POST',
+      headers: exchange.http.headers,
+      body: JSON.stringify(exchange.http.body),
+      signal
+    });
+  }
+}
+
+const TRANSPORT_MODES: LLMTransportMode[] = ['live', 'record', 'replay', 'fake'];
+
+/**
+ * LLM_MODE picks the transport; fixtures live in LLM_FIXTURES_DIR, the fake's
+ * rules in LLM_FAKE_SCRIPT. This runs while the orchestrator module loads, so an
+ * unknown mode is logged and live is used instead of failing the import.
+ */
+export function createLLMTransport(mode: string = process.env.LLM_MODE || 'live'): LLMTransport {
+  if (!TRANSPORT_MODES.includes(mode as LLMTransportMode)) {
+    auditLogger
+      .logError(new Error(`Unknown LLM_MODE '${mode}'; expected one of ${TRANSPORT_MODES.join(', ')}`), { llm_mode: mode, fallback: 'live' })
+      .catch(() => undefined);
+    return new FetchTransport();
+  }
+
+  const fixtures = () => new LLMFixtureStore(process.env.LLM_FIXTURES_DIR || 'fixtures/llm');
+  switch (mode as LLMTransportMode) {
+    case 'record': return new RecordingTransport(new FetchTransport(), fixtures());
+    case 'replay': return new ReplayTransport(fixtures());
+    case 'fake': return new ScriptedLLMTransport(process.env.LLM_FAKE_SCRIPT ? loadFakeScript(process.env.LLM_FAKE_SCRIPT) : []);
+    default: return new FetchTransport();
+  }
+}
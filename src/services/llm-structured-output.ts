@@ -0,0 +1,60 @@
+import { extractJson } from '../utils/json-extraction';
+import { JsonSchema, validateJsonSchema } from '../utils/json-schema';
+import { PromptBuilder } from '../prompts/templates';
+
+export interface StructuredParseResult {
+  data: unknown;
+  errors: string[]; // empty when `data` is valid JSON matching the schema
+}
+
+export class StructuredOutputError extends Error {
+  readonly code = 'INVALID_STRUCTURED_OUTPUT';
+
+  constructor(
+    public readonly errors: string[],
+    public readonly attempts: number,
+    public readonly last_content: string
+  ) {
+    super(`LLM output did not match the schema after ${attempts} attempt(s): ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+    Object.setPrototypeOf(this, StructuredOutputError.prototype);
+  }
+}
+
+const MAX_LISTED_ERRORS = 10;
+// Precedes the schema line in structured prompts; the fake provider reads the schema back from it
+export const SCHEMA_INSTRUCTION = 'Respond with only JSON, no prose or code fences, matching this JSON Schema:';
+
+export function parseStructuredOutput(content: string, schema: JsonSchema): StructuredParseResult {
+  const data = extractJson(content);
+  if (data === null) {
+    return { data, errors: ['$: response is not valid JSON'] };
+  }
+  return { data, errors: validateJsonSchema(data, schema) };
+}
+
+// The caller's prompt plus the JSON contract the answer is validated against
+export function buildStructuredPrompt(prompt: string, schema: JsonSchema): string {
+  return `${prompt}
+
+${SCHEMA_INSTRUCTION}
+${JSON.stringify(schema)}`;
+}
+
+/**
+ * Re-asks for the same answer after a failed validation. The rejected output is
+ * a context block, so it is the first thing trimmed if the window is tight.
+ */
+export function buildRepairPrompt(structuredPrompt: string, previousContent: string, errors: string[]): string {
+  const listed = errors.slice(0, MAX_LISTED_ERRORS).map(error => `- ${error}`).join('\n');
+
+  return `${structuredPrompt}
+
+Your previous response was:
+${PromptBuilder.contextBlock('previous_response', previousContent)}
+
+It was rejected because:
+${listed}
+
+Respond again with only the corrected JSON.`;
+}
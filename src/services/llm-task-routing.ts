@@ -0,0 +1,153 @@
+import { readFileSync } from 'fs';
+import { PROMPT_ROUTING, PROMPT_TEMPLATES, PromptBuilder, PromptRoute, getPromptRoute } from '../prompts/templates';
+
+// The tunable part of a route; template and output shape are fixed by the calling code
+export type RoutingOverride = Partial<Pick<PromptRoute, 'provider' | 'fallback' | 'max_tokens' | 'temperature' | 'cache_ttl'>>;
+
+export class UnknownTaskError extends Error {
+  readonly code = 'UNKNOWN_TASK';
+
+  constructor(public readonly task: string) {
+    super(`Unknown LLM task '${task}'`);
+    this.name = 'UnknownTaskError';
+    Object.setPrototypeOf(this, UnknownTaskError.prototype);
+  }
+}
+
+export class PromptVariablesError extends Error {
+  readonly code = 'INVALID_PROMPT_VARIABLES';
+
+  constructor(public readonly task: string, public readonly missing: string[]) {
+    super(`Task '${task}' is missing prompt variables: ${missing.join(', ')}`);
+    this.name = 'PromptVariablesError';
+    Object.setPrototypeOf(this, PromptVariablesError.prototype);
+  }
+}
+
+export class RoutingOverrideError extends Error {
+  readonly code = 'INVALID_ROUTING_OVERRIDE';
+
+  constructor(public readonly errors: string[]) {
+    super(`Invalid routing overrides: ${errors.join('; ')}`);
+    this.name = 'RoutingOverrideError';
+    Object.setPrototypeOf(this, RoutingOverrideError.prototype);
+  }
+}
+
+const OVERRIDE_FIELDS = ['provider', 'fallback', 'max_tokens', 'temperature', 'cache_ttl'];
+
+// Values for placeholders callers may leave out: single-destination trips have no legs
+const PROMPT_VARIABLE_DEFAULTS: Record<string, unknown> = { legs: [] };
+
+// A file holds a JSON object of overrides keyed by task, e.g. {"itinerary.generate": {"provider": "claude"}}
+export function loadRoutingOverrides(file: string): Record<string, RoutingOverride> {
+  const overrides = JSON.parse(readFileSync(file, 'utf8'));
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new RoutingOverrideError([`${file} must contain a JSON object keyed by task`]);
+  }
+  return overrides;
+}
+
+/**
+ * PROMPT_ROUTING with runtime overrides on top. Overrides replace each other
+ * wholesale, so the active set is always exactly what was last loaded.
+ */
+export class TaskRouter {
+  private overrides: Record<string, RoutingOverride> = {};
+
+  getRoute(task: string): PromptRoute | undefined {
+    const base = getPromptRoute(task);
+    return base ? { ...base, ...this.overrides[task] } : undefined;
+  }
+
+  listRoutes(): Record<string, PromptRoute> {
+    const routes: Record<string, PromptRoute> = {};
+    Object.keys(PROMPT_ROUTING).forEach(task => {
+      routes[task] = this.getRoute(task)!;
+    });
+    return routes;
+  }
+
+  getOverrides(): Record<string, RoutingOverride> {
+    return JSON.parse(JSON.stringify(this.overrides));
+  }
+
+  // Validates the whole set before applying any of it; `providers` limits which provider keys are accepted
+  setOverrides(overrides: Record<string, RoutingOverride>, providers?: string[]): void {
+    const errors: string[] = [];
+
+    Object.keys(overrides).forEach(task => {
+      const override = overrides[task];
+      if (!getPromptRoute(task)) {
+        errors.push(`unknown task '${task}'`);
+        return;
+      }
+      if (!override || typeof override !== 'object' || Array.isArray(override)) {
+        errors.push(`${task}: override must be an object`);
+        return;
+      }
+
+      Object.keys(override).forEach(field => {
+        if (!OVERRIDE_FIELDS.includes(field)) errors.push(`${task}: '${field}' can't be overridden`);
+      });
+
+      const keys = (override.provider !== undefined ? [override.provider] : []).concat(override.fallback || []);
+      if (override.fallback !== undefined && !Array.isArray(override.fallback)) {
+        errors.push(`${task}: fallback must be an array of provider keys`);
+      } else {
+        keys.forEach(key => {
+          if (typeof key !== 'string' || (providers && !providers.includes(key))) {
+            errors.push(`${task}: unknown provider '${key}'`);
+          }
+        });
+      }
+
+      if (override.max_tokens !== undefined && !(Number.isInteger(override.max_tokens) && override.max_tokens > 0)) {
+        errors.push(`${task}: max_tokens must be a positive integer`);
+      }
+      if (override.temperature !== undefined && !(typeof override.temperature === 'number' && override.temperature >= 0 && override.temperature <= 2)) {
+        errors.push(`${task}: temperature must be between 0 and 2`);
+      }
+      if (override.cache_ttl !== undefined && !(Number.isInteger(override.cache_ttl) && override.cache_ttl >= 0)) {
+        errors.push(`${task}: cache_ttl must be a non-negative integer (seconds)`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new RoutingOverrideError(errors);
+    }
+    this.overrides = JSON.parse(JSON.stringify(overrides));
+  }
+
+  // Fills the task's template (or `templateKey`, another PROMPT_TEMPLATES entry); every placeholder without a default needs a value
+  buildPrompt(task: string, provided: Record<string, unknown>, templateKey?: string): string {
+    const route = this.getRoute(task);
+    if (!route) {
+      throw new UnknownTaskError(task);
+    }
+
+    const template = (PROMPT_TEMPLATES as Record<string, string>)[templateKey || route.template];
+    if (template === undefined) {
+      throw new Error(`Unknown prompt template '${templateKey}'`);
+    }
+
+    const variables = { ...provided };
+    Object.keys(PROMPT_VARIABLE_DEFAULTS).forEach(name => {
+      if (variables[name] === undefined || variables[name] === null) variables[name] = PROMPT_VARIABLE_DEFAULTS[name];
+    });
+    const missing = PromptBuilder.placeholders(template).filter(name => variables[name] === undefined || variables[name] === null);
+    if (missing.length > 0) {
+      throw new PromptVariablesError(task, missing);
+    }
+
+    const prompt = PromptBuilder.buildPrompt(template, variables);
+    if (!PromptBuilder.validatePrompt(prompt)) {
+      // A value that itself looks like a placeholder
+      throw new PromptVariablesError(task, PromptBuilder.placeholders(prompt));
+    }
+    return prompt;
+  }
+}
+
+export const taskRouter = new TaskRouter();
+export default TaskRouter;
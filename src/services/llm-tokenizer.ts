@@ -0,0 +1,44 @@
+export interface TokenizerProfile {
+  name: string;
+  chars_per_token: number; // average characters per token inside long words
+  non_ascii_tokens_per_char: number; // ₹, Devanagari, emoji etc. rarely merge into larger tokens
+}
+
+export const TOKENIZER_PROFILES: Record<'default' | 'openai' | 'anthropic' | 'llama', TokenizerProfile> = {
+  default: { name: 'default', chars_per_token: 4, non_ascii_tokens_per_char: 1 },
+  openai: { name: 'openai', chars_per_token: 4, non_ascii_tokens_per_char: 1 },
+  anthropic: { name: 'anthropic', chars_per_token: 3.5, non_ascii_tokens_per_char: 1.2 },
+  llama: { name: 'llama', chars_per_token: 3.6, non_ascii_tokens_per_char: 1.5 }
+};
+
+// Words, digit runs, single non-ASCII characters, whitespace runs, single punctuation marks
+const PIECE_PATTERN = /[A-Za-z]+|[0-9]+|[^\x00-\x7F]|\s+|[\x21-\x2F\x3A-\x40\x5B-\x60\x7B-\x7E]/g;
+
+/**
+ * Approximates BPE token counts without shipping each provider's vocabulary.
+ * Short words are one token, long words split every `chars_per_token`
+ * characters, digits group in threes and every punctuation mark counts on its
+ * own, so JSON-heavy prompts are not underestimated the way characters / 4 is.
+ */
+export function estimateTokens(text: string, profile: TokenizerProfile = TOKENIZER_PROFILES.default): number {
+  if (!text) return 0;
+
+  let tokens = 0;
+  const pieces = text.match(PIECE_PATTERN) || [];
+  pieces.forEach(piece => {
+    if (/^[A-Za-z]/.test(piece)) {
+      tokens += piece.length <= profile.chars_per_token + 2 ? 1 : Math.ceil(piece.length / profile.chars_per_token);
+    } else if (/^[0-9]/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (piece.charCodeAt(0) > 0x7f) {
+      tokens += profile.non_ascii_tokens_per_char;
+    } else if (/^\s/.test(piece)) {
+      // A single space merges into the next word; newlines and indentation don't
+      if (piece !== ' ') tokens += 1;
+    } else {
+      tokens += 1;
+    }
+  });
+
+  return Math.ceil(tokens);
+}
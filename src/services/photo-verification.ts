@@ -4,7 +4,9 @@ import * as ExifReader from 'exifreader';
 import sharp from 'sharp';
 import { auditLogger } from '../utils/audit-logger';
 import { featureFlags } from '../utils/feature-flags';
-import { llmOrchestrator } from './llm-orchestrator';
+import LLMOrchestrator, { llmOrchestrator } from './llm-orchestrator';
+import { StructuredOutputError } from './llm-structured-output';
+import type { JsonSchema } from '../utils/json-schema';
 
 export interface PhotoVerificationRequest {
   trip_id: string;
@@ -15,6 +17,7 @@ export interface PhotoVerificationRequest {
     lng: number;
   };
   claimed_timestamp?: string;
+  expected_location?: string; // leg destination for multi-destination trips, e.g. 'Gokarna, Karnataka'
 }
 
 export interface PhotoVerificationResult {
@@ -49,6 +52,24 @@ export interface DeviceAttestation {
   };
 }
 
+interface VisionAnalysis {
+  authenticity_score: number;
+  location_indicators: string[];
+  spoof_indicators: string[];
+  confidence: number;
+}
+
+const VISION_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['authenticity_score', 'location_indicators', 'spoof_indicators', 'confidence'],
+  properties: {
+    authenticity_score: { type: 'number', minimum: 0, maximum: 1 },
+    location_indicators: { type: 'array', items: { type: 'string' } },
+    spoof_indicators: { type: 'array', items: { type: 'string' } },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  }
+};
+
 class PhotoVerificationService {
   private readonly VERIFICATION_THRESHOLDS = {
     PASS: 0.85,
@@ -59,6 +80,8 @@ class PhotoVerificationService {
   private readonly MAX_LOCATION_DISTANCE_KM = 1.0; // 1km tolerance
   private readonly MAX_TIME_DIFFERENCE_HOURS = 2; // 2 hour tolerance
 
+  constructor(private orchestrator: LLMOrchestrator = llmOrchestrator) {}
+
   async verifyPhoto(request: PhotoVerificationRequest, deviceAttestation?: DeviceAttestation): Promise<PhotoVerificationResult> {
     const photoId = uuidv4();
     const traceId = uuidv4();
@@ -85,7 +108,7 @@ class PhotoVerificationService {
 
       // Step 2: Perform vision analysis
       if (await featureFlags.isEnabled('vision_model_enabled')) {
-        const visionAnalysis = await this.performVisionAnalysis(request.photo_buffer, request);
+        const visionAnalysis = await this.performVisionAnalysis(request.photo_buffer, request, traceId);
         result.vision_analysis = visionAnalysis;
         result.issues.push(...visionAnalysis.spoof_indicators);
       }
@@ -219,7 +242,7 @@ class PhotoVerificationService {
     }
   }
 
-  private async performVisionAnalysis(photoBuffer: Buffer, request: PhotoVerificationRequest): Promise<{
+  private async performVisionAnalysis(photoBuffer: Buffer, request: PhotoVerificationRequest, traceId: string): Promise<{
     location_match: boolean;
     authenticity_score: number;
     detected_objects: string[];
@@ -234,47 +257,45 @@ class PhotoVerificationService {
 
       // Convert to base64 for LLM analysis
       const base64Image = resizedBuffer.toString('base64');
+      const expectedLocation = request.expected_location || 'Goa, India';
 
       // Use LLM for image analysis (in production, use specialized vision models)
       const analysisPrompt = `
         Analyze this photo for authenticity and location verification:
         
-        Expected location: Goa, India
+        Expected location: ${expectedLocation}
         Activity context: ${request.activity_id}
         
         Check for:
         1. Signs of digital manipulation or editing
-        2. Consistency with Goa landscape/architecture
+        2. Consistency with the landscape/architecture of ${expectedLocation}
         3. Objects and landmarks visible
         4. Lighting and shadow consistency
         5. Image quality indicators
         
-        Return JSON analysis:
-        {
-          "authenticity_score": 0.85,
-          "location_indicators": ["palm_trees", "beach", "portuguese_architecture"],
-          "spoof_indicators": ["inconsistent_shadows", "digital_artifacts"],
-          "confidence": 0.9
-        }
+        Return JSON analysis with authenticity_score and confidence (0-1),
+        location_indicators and spoof_indicators (snake_case labels such as
+        "palm_trees", "portuguese_architecture", "inconsistent_shadows").
       `;
 
-      const visionResponse = await llmOrchestrator.generate({
-        prompt: analysisPrompt,
-        provider: 'claude',
-        max_tokens: 800,
-        temperature: 0.2
-      });
-
       try {
-        const analysis = JSON.parse(visionResponse.content);
+        const { data: analysis } = await this.orchestrator.generateStructured<VisionAnalysis>({
+          prompt: analysisPrompt,
+          provider: 'claude',
+          trace_id: traceId,
+          max_tokens: 800,
+          temperature: 0.2
+        }, VISION_ANALYSIS_SCHEMA);
         
         return {
-          location_match: analysis.location_indicators?.length > 0,
-          authenticity_score: analysis.authenticity_score || 0.5,
-          detected_objects: analysis.location_indicators || [],
-          spoof_indicators: analysis.spoof_indicators || []
+          location_match: analysis.location_indicators.length > 0,
+          authenticity_score: analysis.authenticity_score,
+          detected_objects: analysis.location_indicators,
+          spoof_indicators: analysis.spoof_indicators
         };
-      } catch (parseError) {
+      } catch (analysisError) {
+        if (!(analysisError instanceof StructuredOutputError)) throw analysisError;
+
         return {
           location_match: false,
           authenticity_score: 0.5,
@@ -0,0 +1,394 @@
+import { v4 as uuidv4 } from 'uuid';
+import { auditLogger } from '../utils/audit-logger';
+import { TripRepository, tripRepository } from '../repositories/trip-repository';
+import { ItineraryRepository, StoredItinerary, itineraryRepository } from '../repositories/itinerary-repository';
+import { TripTemplateRepository, tripTemplateRepository } from '../repositories/trip-template-repository';
+import { itineraryOptimizer } from './itinerary-optimizer';
+import { TripLifecycle } from './trip-lifecycle';
+import { TripCollaboration } from './trip-collaboration';
+import { analyzeTripGaps, TripInfoField } from './trip-gap-analyzer';
+import { getDefaultFollowUpQuestions } from './follow-up-questions';
+import { getTripDatesFromLegs, shiftTripLegs } from './trip-legs';
+import type { CreateTripRequest, Trip } from './trip-service';
+import type { AuthUser } from '../middleware/auth';
+
+export interface TripOverrides {
+  dates?: CreateTripRequest['dates'];
+  party_composition?: CreateTripRequest['party_composition'];
+  budget_per_person?: number;
+}
+
+export interface TemplateDay {
+  day: number; // 1-based day of the trip
+  activities: Array<{
+    activity_id: string;
+    title: string;
+    category: string;
+    duration: number;
+  }>;
+}
+
+/**
+ * An anonymized, reusable trip plan. `published_by` and `source_trip_id` are kept
+ * for moderation and are never returned to other users.
+ */
+export interface TripTemplate {
+  template_id: string;
+  title: string;
+  description?: string;
+  destination: string;
+  duration_days: number;
+  party_type: 'solo' | 'couple' | 'family' | 'group';
+  budget_band: 'budget' | 'mid_range' | 'luxury';
+  preferences: string[];
+  days: TemplateDay[];
+  published_by: string;
+  source_trip_id: string;
+  published_at: string;
+  times_used: number;
+}
+
+export type PublicTripTemplate = Omit<TripTemplate, 'published_by' | 'source_trip_id'>;
+
+export interface PlannedTrip {
+  trip: Trip;
+  itinerary: StoredItinerary | null;
+}
+
+export interface CloningContext {
+  actor: AuthUser;
+  trace_id: string;
+}
+
+export class TripCloningError extends Error {
+  constructor(public readonly code: 'NOT_FOUND' | 'INVALID_INPUT', message: string) {
+    super(message);
+    this.name = 'TripCloningError';
+    Object.setPrototypeOf(this, TripCloningError.prototype);
+  }
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class TripCloning {
+  constructor(
+    private trips: TripRepository = tripRepository,
+    private itineraries: ItineraryRepository = itineraryRepository,
+    private templates: TripTemplateRepository = tripTemplateRepository,
+    private lifecycle: TripLifecycle = new TripLifecycle(trips),
+    private collaboration: TripCollaboration = new TripCollaboration(trips)
+  ) {}
+
+  /**
+   * Copies a trip the caller can view into a new trip they own, applying overrides,
+   * and re-fits the source's latest itinerary to the new dates, party and budget.
+   */
+  async cloneTrip(sourceTripId: string, overrides: TripOverrides, context: CloningContext): Promise<PlannedTrip> {
+    this.validateOverrides(overrides);
+
+    const source = await this.trips.findById(sourceTripId);
+    if (!source || !this.collaboration.can(source, context.actor.id, 'view')) {
+      throw new TripCloningError('NOT_FOUND', `Trip with ID '${sourceTripId}' not found`);
+    }
+
+    // A multi-destination route keeps its leg lengths and moves to the new start date
+    const legs = source.legs && source.legs.length > 0 && overrides.dates?.start_date
+      ? shiftTripLegs(source.legs, overrides.dates.start_date)
+      : source.legs;
+
+    const sourceItinerary = await this.itineraries.findLatestByTrip(source.trip_id);
+    const trip = await this.createTrip({
+      user_id: context.actor.id,
+      destination: source.destination,
+      message: source.message,
+      legs,
+      dates: legs && legs.length > 0 ? getTripDatesFromLegs(legs) : this.getCloneDates(source.dates, overrides.dates),
+      party_composition: overrides.party_composition || source.party_composition,
+      budget_per_person: overrides.budget_per_person ?? source.budget_per_person,
+      preferences: this.mergePreferences(source.preferences, sourceItinerary),
+      origin: { type: 'clone', source_id: source.trip_id }
+    }, context);
+
+    await auditLogger.log({
+      trace_id: context.trace_id,
+      action: 'trip.cloned',
+      entity_type: 'trip',
+      entity_id: trip.trip_id,
+      user_id: context.actor.id,
+      metadata: { source_trip_id: source.trip_id }
+    });
+
+    return this.planTrip(trip, context, sourceItinerary?.days.map(day => day.activities.map(activity => activity.activity_id)));
+  }
+
+  async publishTemplate(
+    tripId: string,
+    details: { title: string; description?: string },
+    context: CloningContext
+  ): Promise<PublicTripTemplate> {
+    const trip = await this.trips.findById(tripId);
+    if (!trip || !this.collaboration.can(trip, context.actor.id, 'view')) {
+      throw new TripCloningError('NOT_FOUND', `Trip with ID '${tripId}' not found`);
+    }
+    this.collaboration.assertCan(trip, context.actor.id, 'publish');
+
+    const title = (details.title || '').trim();
+    if (!title || title.length > 120) {
+      throw new TripCloningError('INVALID_INPUT', 'title is required and must be at most 120 characters');
+    }
+
+    // Trips planned outside cloning have nothing stored yet; plan one from the trip's details
+    let itinerary = await this.itineraries.findLatestByTrip(trip.trip_id);
+    if (!itinerary && this.getMissingDetails(trip).length === 0) {
+      itinerary = await this.generateItinerary(trip);
+    }
+    if (!itinerary || itinerary.days.length === 0) {
+      throw new TripCloningError('INVALID_INPUT', 'Only trips with dates, party, budget and an itinerary can be published');
+    }
+
+    // Keep only what's needed to re-plan: no dates, names, free text, prices or exact budgets
+    const template: TripTemplate = {
+      template_id: uuidv4(),
+      title,
+      description: details.description?.trim().substring(0, 500) || undefined,
+      destination: trip.destination,
+      duration_days: itinerary.days.length,
+      party_type: this.getPartyType(trip.party_composition),
+      budget_band: this.getBudgetBand(trip.budget_per_person),
+      preferences: this.mergePreferences(trip.preferences, itinerary),
+      days: itinerary.days.map((day, index) => ({
+        day: index + 1,
+        activities: day.activities.map(activity => ({
+          activity_id: activity.activity_id,
+          title: activity.title,
+          category: activity.category,
+          duration: activity.duration
+        }))
+      })),
+      published_by: context.actor.id,
+      source_trip_id: trip.trip_id,
+      published_at: new Date().toISOString(),
+      times_used: 0
+    };
+
+    const stored = await this.templates.create(template);
+
+    await auditLogger.log({
+      trace_id: context.trace_id,
+      action: 'trip.template_published',
+      entity_type: 'trip_template',
+      entity_id: stored.template_id,
+      user_id: context.actor.id,
+      metadata: { source_trip_id: trip.trip_id }
+    });
+
+    return this.toPublicTemplate(stored);
+  }
+
+  async listTemplates(options: { destination?: string; limit?: number; offset?: number } = {}): Promise<PublicTripTemplate[]> {
+    const templates = await this.templates.list(options);
+    return templates.map(template => this.toPublicTemplate(template));
+  }
+
+  async countTemplates(options: { destination?: string } = {}): Promise<number> {
+    return this.templates.count(options);
+  }
+
+  async createTripFromTemplate(templateId: string, overrides: TripOverrides, context: CloningContext): Promise<PlannedTrip> {
+    this.validateOverrides(overrides);
+
+    const template = await this.templates.findById(templateId);
+    if (!template) {
+      throw new TripCloningError('NOT_FOUND', `Template with ID '${templateId}' not found`);
+    }
+
+    // A start date alone is enough: the template fixes the duration
+    let dates = overrides.dates;
+    if (dates?.start_date && !dates.end_date) {
+      const end = new Date(new Date(dates.start_date).getTime() + template.duration_days * MS_PER_DAY);
+      dates = { start_date: dates.start_date, end_date: end.toISOString().split('T')[0] };
+    }
+
+    const trip = await this.createTrip({
+      user_id: context.actor.id,
+      destination: template.destination,
+      message: template.title,
+      dates,
+      party_composition: overrides.party_composition,
+      budget_per_person: overrides.budget_per_person,
+      preferences: template.preferences,
+      origin: { type: 'template', source_id: template.template_id }
+    }, context);
+
+    await this.templates.incrementUsage(template.template_id);
+    await auditLogger.log({
+      trace_id: context.trace_id,
+      action: 'trip.created_from_template',
+      entity_type: 'trip',
+      entity_id: trip.trip_id,
+      user_id: context.actor.id,
+      metadata: { template_id: template.template_id }
+    });
+
+    // The template's days are the plan; the optimizer keeps what fits the new party and budget
+    const plannedDays = template.days
+      .slice()
+      .sort((a, b) => a.day - b.day)
+      .map(day => day.activities.map(activity => activity.activity_id));
+
+    return this.planTrip(trip, context, plannedDays);
+  }
+
+  private async createTrip(
+    details: Omit<Trip, 'trip_id' | 'status' | 'created_at' | 'updated_at'>,
+    context: CloningContext
+  ): Promise<Trip> {
+    const now = new Date().toISOString();
+    return this.trips.create({
+      ...details,
+      trip_id: uuidv4(),
+      status: 'created',
+      follow_up_questions: [],
+      status_history: [],
+      created_at: now,
+      updated_at: now
+    });
+  }
+
+  /**
+   * Asks for whatever is still missing (e.g. new dates when the source trip is in the past),
+   * otherwise runs the optimizer straight away, keeping `plannedDays` where they still fit.
+   */
+  private async planTrip(trip: Trip, context: CloningContext, plannedDays?: string[][]): Promise<PlannedTrip> {
+    const transitionContext = { actor: context.actor.id, trace_id: context.trace_id };
+    const gaps = this.getPlanningGaps(trip);
+
+    if (gaps.length > 0) {
+      const questions = getDefaultFollowUpQuestions(gaps);
+      const updated = await this.trips.update(trip.trip_id, { follow_up_questions: questions }) || trip;
+      return {
+        trip: await this.lifecycle.transition(updated, 'questions_pending', { ...transitionContext, reason: 'missing_details' }),
+        itinerary: null
+      };
+    }
+
+    const generating = await this.lifecycle.transition(trip, 'generating', transitionContext);
+
+    try {
+      const itinerary = await this.generateItinerary(generating, plannedDays);
+
+      return {
+        trip: await this.lifecycle.transition(generating, 'ready', transitionContext),
+        itinerary
+      };
+    } catch (error) {
+      await this.lifecycle.transition(generating, 'failed', {
+        ...transitionContext,
+        reason: error instanceof Error ? error.message : 'optimization_failed'
+      });
+      throw error;
+    }
+  }
+
+  private async generateItinerary(trip: Trip, plannedDays?: string[][]): Promise<StoredItinerary> {
+    const optimized = await itineraryOptimizer.optimizeItinerary({
+      trip_id: trip.trip_id,
+      destination: trip.destination,
+      legs: trip.legs,
+      dates: trip.dates!,
+      party_composition: trip.party_composition!,
+      budget_per_person: trip.budget_per_person!,
+      preferences: trip.preferences || [],
+      planned_days: plannedDays
+    });
+    return this.itineraries.save(optimized);
+  }
+
+  // What the optimizer needs; preferences are optional
+  private getMissingDetails(trip: Trip): TripInfoField[] {
+    return analyzeTripGaps({
+      dates: trip.dates,
+      party_composition: trip.party_composition,
+      budget_per_person: trip.budget_per_person,
+      preferences: trip.preferences
+    }).gaps.filter(gap => gap !== 'preferences');
+  }
+
+  private getPlanningGaps(trip: Trip): TripInfoField[] {
+    const gaps = this.getMissingDetails(trip);
+
+    const today = new Date().toISOString().split('T')[0];
+    if (trip.dates && trip.dates.start_date < today && !gaps.includes('dates')) {
+      gaps.unshift('dates');
+    }
+
+    return gaps;
+  }
+
+  // Rejected before anything is created, so a bad date can't surface later as an optimizer failure
+  private validateOverrides(overrides: TripOverrides): void {
+    const { dates, budget_per_person } = overrides;
+    if (dates) {
+      if (!this.isValidDate(dates.start_date)) {
+        throw new TripCloningError('INVALID_INPUT', 'dates.start_date must be a date in YYYY-MM-DD format');
+      }
+      if (dates.end_date !== undefined && (!this.isValidDate(dates.end_date) || dates.end_date <= dates.start_date)) {
+        throw new TripCloningError('INVALID_INPUT', 'dates.end_date must be a YYYY-MM-DD date after dates.start_date');
+      }
+    }
+    if (budget_per_person !== undefined && !(typeof budget_per_person === 'number' && budget_per_person > 0)) {
+      throw new TripCloningError('INVALID_INPUT', 'budget_per_person must be a positive number');
+    }
+  }
+
+  private isValidDate(value: unknown): value is string {
+    return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+  }
+
+  // A new start date alone moves the source trip, keeping its length
+  private getCloneDates(sourceDates: Trip['dates'], dates: TripOverrides['dates']): Trip['dates'] {
+    if (!dates) return sourceDates;
+    if (dates.end_date || !sourceDates) return dates;
+
+    const offset = Date.parse(dates.start_date) - Date.parse(sourceDates.start_date);
+    return {
+      start_date: dates.start_date,
+      end_date: new Date(Date.parse(sourceDates.end_date) + offset).toISOString().split('T')[0]
+    };
+  }
+
+  // Activity categories from the previous plan steer the optimizer towards a similar trip
+  private mergePreferences(preferences: string[] | undefined, itinerary: StoredItinerary | null): string[] {
+    const merged = [...(preferences || [])];
+    for (const day of itinerary?.days || []) {
+      for (const activity of day.activities) {
+        if (!merged.some(pref => pref.toLowerCase() === activity.category.toLowerCase())) {
+          merged.push(activity.category);
+        }
+      }
+    }
+    return merged;
+  }
+
+  private getPartyType(party: Trip['party_composition']): TripTemplate['party_type'] {
+    if (!party) return 'solo';
+    if (party.children > 0 || party.infants > 0) return 'family';
+    if (party.adults === 1) return 'solo';
+    if (party.adults === 2) return 'couple';
+    return 'group';
+  }
+
+  private getBudgetBand(budget: number | undefined): TripTemplate['budget_band'] {
+    if (!budget || budget <= 5000) return 'budget';
+    return budget > 10000 ? 'luxury' : 'mid_range';
+  }
+
+  private toPublicTemplate(template: TripTemplate): PublicTripTemplate {
+    const { published_by, source_trip_id, ...publicTemplate } = template;
+    return publicTemplate;
+  }
+}
+
+export const tripCloning = new TripCloning();
+export default TripCloning;
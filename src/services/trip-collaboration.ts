@@ -0,0 +1,429 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { auditLogger } from '../utils/audit-logger';
+import { TripRepository, TripUpdate, tripRepository } from '../repositories/trip-repository';
+import type { Trip } from './trip-service';
+import type { AuthUser } from '../middleware/auth';
+
+export type TripMemberRole = 'owner' | 'editor' | 'viewer';
+
+export type TripPermission = 'view' | 'answer' | 'vote' | 'manage_members' | 'publish' | 'delete';
+
+export interface TripMember {
+  member_id: string;
+  user_id?: string; // unset until an email invitation is accepted
+  email?: string;
+  role: Exclude<TripMemberRole, 'owner'>;
+  status: 'invited' | 'active';
+  invite_token_hash?: string;
+  invited_by: string;
+  invited_at: string;
+  joined_at?: string;
+}
+
+export interface TripShareLink {
+  link_id: string;
+  token_hash: string;
+  role: Exclude<TripMemberRole, 'owner'>;
+  created_by: string;
+  created_at: string;
+  expires_at: string;
+  revoked_at?: string;
+}
+
+export interface ActivityVote {
+  activity_id: string;
+  user_id: string;
+  vote: 'up' | 'down';
+  voted_at: string;
+}
+
+export interface CollaborationContext {
+  actor: AuthUser;
+  trace_id: string;
+}
+
+export const ROLE_PERMISSIONS: Record<TripMemberRole, TripPermission[]> = {
+  owner: ['view', 'answer', 'vote', 'manage_members', 'publish', 'delete'],
+  editor: ['view', 'answer', 'vote'],
+  viewer: ['view']
+};
+
+export class CollaborationError extends Error {
+  constructor(
+    public readonly code: 'FORBIDDEN' | 'NOT_FOUND' | 'INVALID_INPUT' | 'INVALID_INVITATION' | 'ALREADY_MEMBER' | 'CONFLICT',
+    message: string
+  ) {
+    super(message);
+    this.name = 'CollaborationError';
+    Object.setPrototypeOf(this, CollaborationError.prototype);
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'FORBIDDEN': return 403;
+      case 'NOT_FOUND': return 404;
+      case 'ALREADY_MEMBER':
+      case 'CONFLICT': return 409;
+      default: return 400;
+    }
+  }
+}
+
+// What redeeming a token did; no member when the user already belonged to the trip
+interface JoinOutcome {
+  role: TripMemberRole;
+  member?: TripMember;
+  metadata?: Record<string, any>;
+}
+
+const DEFAULT_SHARE_LINK_TTL_HOURS = 7 * 24;
+const MAX_SHARE_LINK_TTL_HOURS = 30 * 24;
+const MAX_UPDATE_ATTEMPTS = 5;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Trip membership: roles, invitations (by email or share link) and activity votes.
+ *
+ * Invitation tokens are `<trip_id>.<secret>`; only a hash of the secret is stored,
+ * so the raw token is returned exactly once, to the member who created it.
+ * Members, share links and votes are rewritten as whole lists, so every change is
+ * written against the trip version it was computed from (see updateTrip).
+ */
+export class TripCollaboration {
+  constructor(private repository: TripRepository = tripRepository) {}
+
+  getRole(trip: Trip, userId: string): TripMemberRole | null {
+    if (trip.user_id && trip.user_id === userId) {
+      return 'owner';
+    }
+
+    const member = (trip.members || []).find(m => m.status === 'active' && m.user_id === userId);
+    return member ? member.role : null;
+  }
+
+  can(trip: Trip, userId: string, permission: TripPermission): boolean {
+    const role = this.getRole(trip, userId);
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  assertCan(trip: Trip, userId: string, permission: TripPermission): void {
+    if (!this.getRole(trip, userId)) {
+      // Non-members can't learn that the trip exists
+      throw new CollaborationError('NOT_FOUND', `Trip with ID '${trip.trip_id}' not found`);
+    }
+    if (!this.can(trip, userId, permission)) {
+      throw new CollaborationError('FORBIDDEN', `Your role on this trip does not allow '${permission}'`);
+    }
+  }
+
+  async inviteByEmail(
+    tripId: string,
+    email: string,
+    role: TripMember['role'],
+    context: CollaborationContext
+  ): Promise<{ member: TripMember; invite_token: string }> {
+    this.assertMemberRole(role);
+
+    const normalizedEmail = (email || '').trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      throw new CollaborationError('INVALID_INPUT', 'A valid email address is required');
+    }
+
+    const { token, hash } = this.generateToken(tripId);
+    const member: TripMember = {
+      member_id: uuidv4(),
+      email: normalizedEmail,
+      role,
+      status: 'invited',
+      invite_token_hash: hash,
+      invited_by: context.actor.id,
+      invited_at: new Date().toISOString()
+    };
+
+    await this.updateTrip(() => this.loadTrip(tripId), trip => {
+      this.assertCan(trip, context.actor.id, 'manage_members');
+      if ((trip.members || []).some(m => m.email === normalizedEmail)) {
+        throw new CollaborationError('ALREADY_MEMBER', `${normalizedEmail} has already been invited`);
+      }
+      return { changes: { members: [...(trip.members || []), member] }, result: undefined };
+    });
+    await this.audit('trip.member_invited', tripId, context, { member_id: member.member_id, role });
+
+    return { member: this.redact(member), invite_token: token };
+  }
+
+  async createShareLink(
+    tripId: string,
+    role: TripShareLink['role'],
+    context: CollaborationContext,
+    ttlHours: number = DEFAULT_SHARE_LINK_TTL_HOURS
+  ): Promise<{ link: Omit<TripShareLink, 'token_hash'>; share_token: string }> {
+    this.assertMemberRole(role);
+    // Request bodies aren't typed; NaN would make an invalid expiry date
+    if (typeof ttlHours !== 'number' || !isFinite(ttlHours) || ttlHours <= 0) {
+      throw new CollaborationError('INVALID_INPUT', 'expires_in_hours must be a positive number');
+    }
+
+    const hours = Math.min(Math.max(ttlHours, 1), MAX_SHARE_LINK_TTL_HOURS);
+    const { token, hash } = this.generateToken(tripId);
+    const now = new Date();
+    const link: TripShareLink = {
+      link_id: uuidv4(),
+      token_hash: hash,
+      role,
+      created_by: context.actor.id,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString()
+    };
+
+    await this.updateTrip(() => this.loadTrip(tripId), trip => {
+      this.assertCan(trip, context.actor.id, 'manage_members');
+      return { changes: { share_links: [...(trip.share_links || []), link] }, result: undefined };
+    });
+    await this.audit('trip.share_link_created', tripId, context, { link_id: link.link_id, role });
+
+    const { token_hash, ...publicLink } = link;
+    return { link: publicLink, share_token: token };
+  }
+
+  async revokeShareLink(tripId: string, linkId: string, context: CollaborationContext): Promise<void> {
+    const revokedAt = new Date().toISOString();
+    await this.updateTrip(() => this.loadTrip(tripId), trip => {
+      this.assertCan(trip, context.actor.id, 'manage_members');
+
+      const links = trip.share_links || [];
+      if (!links.some(link => link.link_id === linkId && !link.revoked_at)) {
+        throw new CollaborationError('NOT_FOUND', `Share link '${linkId}' not found`);
+      }
+      return {
+        changes: { share_links: links.map(link => link.link_id === linkId ? { ...link, revoked_at: revokedAt } : link) },
+        result: undefined
+      };
+    });
+    await this.audit('trip.share_link_revoked', tripId, context, { link_id: linkId });
+  }
+
+  /**
+   * Redeems an email invitation or share link token for the calling user.
+   */
+  async acceptInvitation(token: string, context: CollaborationContext): Promise<{ trip: Trip; role: TripMemberRole }> {
+    const [tripId, secret] = (token || '').split('.');
+    if (!tripId || !secret) {
+      throw new CollaborationError('INVALID_INVITATION', 'Invitation token is malformed');
+    }
+
+    const hash = this.hashSecret(secret);
+    const now = new Date().toISOString();
+    const loadInvitedTrip = async (): Promise<Trip> => {
+      const trip = await this.repository.findById(tripId);
+      if (!trip) {
+        throw new CollaborationError('INVALID_INVITATION', 'Invitation is no longer valid');
+      }
+      return trip;
+    };
+
+    const { trip, result: joined } = await this.updateTrip<JoinOutcome>(loadInvitedTrip, current => {
+      const existingRole = this.getRole(current, context.actor.id);
+      if (existingRole) {
+        return { result: { role: existingRole } };
+      }
+
+      const members = current.members || [];
+      const invited = members.find(m => m.status === 'invited' && m.invite_token_hash === hash);
+      if (invited) {
+        if (!context.actor.email || context.actor.email.toLowerCase() !== invited.email) {
+          throw new CollaborationError('INVALID_INVITATION', 'This invitation was sent to a different email address');
+        }
+
+        const member: TripMember = {
+          ...invited,
+          user_id: context.actor.id,
+          status: 'active',
+          invite_token_hash: undefined,
+          joined_at: now
+        };
+        return {
+          changes: { members: members.map(m => m.member_id === invited.member_id ? member : m) },
+          result: { role: member.role, member, metadata: { via: 'email' } }
+        };
+      }
+
+      const link = (current.share_links || []).find(l => l.token_hash === hash);
+      if (!link || link.revoked_at || link.expires_at < now) {
+        throw new CollaborationError('INVALID_INVITATION', 'Invitation is no longer valid');
+      }
+
+      const member: TripMember = {
+        member_id: uuidv4(),
+        user_id: context.actor.id,
+        email: context.actor.email?.toLowerCase(),
+        role: link.role,
+        status: 'active',
+        invited_by: link.created_by,
+        invited_at: link.created_at,
+        joined_at: now
+      };
+      return {
+        changes: { members: [...members, member] },
+        result: { role: member.role, member, metadata: { via: 'share_link', link_id: link.link_id } }
+      };
+    });
+
+    if (joined.member) {
+      await this.audit('trip.member_joined', trip.trip_id, context, { member_id: joined.member.member_id, ...joined.metadata });
+    }
+    return { trip, role: joined.role };
+  }
+
+  async updateMemberRole(
+    tripId: string,
+    memberId: string,
+    role: TripMember['role'],
+    context: CollaborationContext
+  ): Promise<TripMember> {
+    this.assertMemberRole(role);
+
+    const { result: member } = await this.updateTrip(() => this.loadTrip(tripId), trip => {
+      this.assertCan(trip, context.actor.id, 'manage_members');
+      const current = this.findMember(trip, memberId);
+      return {
+        changes: { members: (trip.members || []).map(m => m.member_id === memberId ? { ...m, role } : m) },
+        result: current
+      };
+    });
+    const updatedMember: TripMember = { ...member, role };
+    await this.audit('trip.member_role_changed', tripId, context, {
+      member_id: memberId,
+      from_role: member.role,
+      to_role: role
+    });
+
+    return this.redact(updatedMember);
+  }
+
+  async removeMember(tripId: string, memberId: string, context: CollaborationContext): Promise<void> {
+    await this.updateTrip(() => this.loadTrip(tripId), trip => {
+      const member = this.findMember(trip, memberId);
+
+      // Members may always leave; removing others requires manage_members
+      if (member.user_id !== context.actor.id) {
+        this.assertCan(trip, context.actor.id, 'manage_members');
+      }
+      return { changes: { members: (trip.members || []).filter(m => m.member_id !== memberId) }, result: undefined };
+    });
+    await this.audit('trip.member_removed', tripId, context, { member_id: memberId });
+  }
+
+  async listMembers(tripId: string, context: CollaborationContext): Promise<TripMember[]> {
+    const trip = await this.loadTrip(tripId);
+    this.assertCan(trip, context.actor.id, 'view');
+    return (trip.members || []).map(member => this.redact(member));
+  }
+
+  async voteOnActivity(
+    tripId: string,
+    activityId: string,
+    vote: ActivityVote['vote'],
+    context: CollaborationContext
+  ): Promise<ActivityVote[]> {
+    const votedAt = new Date().toISOString();
+    const { trip } = await this.updateTrip(() => this.loadTrip(tripId), current => {
+      this.assertCan(current, context.actor.id, 'vote');
+
+      if (!activityId || (vote !== 'up' && vote !== 'down')) {
+        throw new CollaborationError('INVALID_INPUT', "activity_id and a vote of 'up' or 'down' are required");
+      }
+
+      // One vote per member per activity; voting again replaces the previous vote
+      const votes = (current.activity_votes || [])
+        .filter(v => !(v.activity_id === activityId && v.user_id === context.actor.id))
+        .concat({ activity_id: activityId, user_id: context.actor.id, vote, voted_at: votedAt });
+      return { changes: { activity_votes: votes }, result: undefined };
+    });
+    await this.audit('trip.activity_voted', tripId, context, { activity_id: activityId, vote });
+
+    return (trip.activity_votes || []).filter(v => v.activity_id === activityId);
+  }
+
+  /**
+   * Loads the trip, computes the change and writes it only if the trip is still at
+   * the version that was read; otherwise reloads and recomputes. `change` runs on
+   * every attempt, so its permission checks see the latest members. TripService
+   * writes answers the same way.
+   */
+  async updateTrip<T>(
+    load: () => Promise<Trip>,
+    change: (trip: Trip) => { changes?: TripUpdate; result: T }
+  ): Promise<{ trip: Trip; result: T }> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const trip = await load();
+      const { changes, result } = change(trip);
+      if (!changes) {
+        return { trip, result };
+      }
+
+      const updated = await this.repository.update(trip.trip_id, changes, { expected_version: trip.version || 0 });
+      if (updated) {
+        return { trip: updated, result };
+      }
+    }
+
+    throw new CollaborationError('CONFLICT', 'The trip was changed by someone else at the same time; please retry');
+  }
+
+  private async loadTrip(tripId: string): Promise<Trip> {
+    const trip = await this.repository.findById(tripId);
+    if (!trip) {
+      throw new CollaborationError('NOT_FOUND', `Trip with ID '${tripId}' not found`);
+    }
+    return trip;
+  }
+
+  private findMember(trip: Trip, memberId: string): TripMember {
+    const member = (trip.members || []).find(m => m.member_id === memberId);
+    if (!member) {
+      throw new CollaborationError('NOT_FOUND', `Member '${memberId}' not found`);
+    }
+    return member;
+  }
+
+  private assertMemberRole(role: string): void {
+    if (role !== 'editor' && role !== 'viewer') {
+      throw new CollaborationError('INVALID_INPUT', "role must be 'editor' or 'viewer'");
+    }
+  }
+
+  private generateToken(tripId: string): { token: string; hash: string } {
+    const secret = crypto.randomBytes(24).toString('hex');
+    return { token: `${tripId}.${secret}`, hash: this.hashSecret(secret) };
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private redact(member: TripMember): TripMember {
+    const { invite_token_hash, ...publicMember } = member;
+    return publicMember;
+  }
+
+  private async audit(
+    action: string,
+    tripId: string,
+    context: CollaborationContext,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    await auditLogger.log({
+      trace_id: context.trace_id,
+      action,
+      entity_type: 'trip',
+      entity_id: tripId,
+      user_id: context.actor.id,
+      metadata
+    });
+  }
+}
+
+export const tripCollaboration = new TripCollaboration();
+export default TripCollaboration;
@@ -0,0 +1,260 @@
+import type { CreateTripRequest } from './trip-service';
+import { INTEREST_OPTIONS } from './follow-up-questions';
+
+export type TripInfoField = 'dates' | 'party_composition' | 'budget_per_person' | 'preferences';
+
+export interface FieldAssessment {
+  field: TripInfoField;
+  status: 'provided' | 'inferred' | 'ambiguous' | 'missing';
+  confidence: number; // 0..1, how sure we are that `value` reflects what the traveller wants
+  source: 'request' | 'message' | null;
+  value?: any;
+  reason?: string;
+}
+
+export interface GapAnalysis {
+  fields: Record<TripInfoField, FieldAssessment>;
+  gaps: TripInfoField[]; // fields below the confidence threshold, in asking order
+  complete: boolean;
+}
+
+export type GapAnalysisInput = Partial<Omit<CreateTripRequest, 'destination'>>;
+
+// Fields below this confidence are treated as gaps and asked about
+export const GAP_CONFIDENCE_THRESHOLD = 0.7;
+
+const FIELD_ORDER: TripInfoField[] = ['dates', 'budget_per_person', 'party_composition', 'preferences'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DAY_PATTERN = '(\\d{1,2})(?:st|nd|rd|th)?';
+const RANGE_SEPARATOR = '\\s*(?:to|-|–|—|till|until|through)\\s*';
+
+const INTEREST_KEYWORDS: Record<string, string[]> = {
+  'Beaches': ['beach', 'sea', 'sunset', 'coast'],
+  'Historical sites': ['history', 'historic', 'heritage', 'church', 'fort', 'museum', 'old goa'],
+  'Adventure sports': ['adventure', 'trek', 'water sport', 'scuba', 'parasail', 'kayak', 'diving', 'surf'],
+  'Nightlife': ['nightlife', 'party', 'parties', 'club', 'pub', 'bar'],
+  'Local cuisine': ['food', 'cuisine', 'seafood', 'restaurant', 'eat'],
+  'Shopping': ['shopping', 'market', 'flea'],
+  'Nature/Wildlife': ['nature', 'wildlife', 'waterfall', 'spice', 'dolphin', 'bird', 'jungle']
+};
+
+/**
+ * Deterministic "missing information" analysis for a trip request.
+ *
+ * Structured request fields win over anything parsed from the free-text message;
+ * the message is only used to fill (or flag as ambiguous) fields the request left out.
+ * No LLM calls are made here.
+ */
+export function analyzeTripGaps(input: GapAnalysisInput, now: Date = new Date()): GapAnalysis {
+  const message = (input.message || '').toLowerCase();
+
+  const fields: Record<TripInfoField, FieldAssessment> = {
+    dates: assessDates(input.dates, message, now),
+    party_composition: assessParty(input.party_composition, message),
+    budget_per_person: assessBudget(input.budget_per_person, message),
+    preferences: assessPreferences(input.preferences, message)
+  };
+
+  const gaps = FIELD_ORDER.filter(field => fields[field].confidence < GAP_CONFIDENCE_THRESHOLD);
+
+  return { fields, gaps, complete: gaps.length === 0 };
+}
+
+/**
+ * Values inferred from the message with enough confidence to be used without asking.
+ */
+export function getInferredValues(analysis: GapAnalysis): GapAnalysisInput {
+  const values: GapAnalysisInput = {};
+
+  for (const field of FIELD_ORDER) {
+    const assessment = analysis.fields[field];
+    if (assessment.status === 'inferred' && assessment.confidence >= GAP_CONFIDENCE_THRESHOLD) {
+      (values as any)[field] = assessment.value;
+    }
+  }
+
+  return values;
+}
+
+function assessDates(dates: GapAnalysisInput['dates'], message: string, now: Date): FieldAssessment {
+  if (dates?.start_date || dates?.end_date) {
+    const start = new Date(dates.start_date);
+    const end = new Date(dates.end_date);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return { field: 'dates', status: 'ambiguous', confidence: 0.3, source: 'request', value: dates, reason: 'unparseable dates' };
+    }
+    if (start >= end) {
+      return { field: 'dates', status: 'ambiguous', confidence: 0.2, source: 'request', value: dates, reason: 'start_date is not before end_date' };
+    }
+    return { field: 'dates', status: 'provided', confidence: 1, source: 'request', value: dates };
+  }
+
+  const isoDates = message.match(/\d{4}-\d{2}-\d{2}/g);
+  if (isoDates && isoDates.length >= 2 && isoDates[0] < isoDates[1]) {
+    return {
+      field: 'dates',
+      status: 'inferred',
+      confidence: 0.9,
+      source: 'message',
+      value: { start_date: isoDates[0], end_date: isoDates[1] }
+    };
+  }
+
+  const range = parseMonthDayRange(message, now);
+  if (range) {
+    return { field: 'dates', status: 'inferred', confidence: 0.8, source: 'message', value: range };
+  }
+
+  if (/\b(\d{1,2}|a|one|two)\s*(day|night|week)s?\b|\bweekend\b/.test(message)) {
+    return { field: 'dates', status: 'ambiguous', confidence: 0.5, source: 'message', reason: 'duration given without dates' };
+  }
+
+  if (new RegExp(`\\b${MONTH_PATTERN}\\b`).test(message) || /\b(next|this) (week|month)\b/.test(message)) {
+    return { field: 'dates', status: 'ambiguous', confidence: 0.4, source: 'message', reason: 'approximate timing only' };
+  }
+
+  return { field: 'dates', status: 'missing', confidence: 0, source: null };
+}
+
+function parseMonthDayRange(message: string, now: Date): { start_date: string; end_date: string } | null {
+  // "dec 15 to 18", "december 15th - 18th"
+  const monthFirst = message.match(new RegExp(`\\b${MONTH_PATTERN}\\s*${DAY_PATTERN}${RANGE_SEPARATOR}(?:${MONTH_PATTERN}\\s*)?${DAY_PATTERN}\\b`));
+  if (monthFirst) {
+    return buildRange(monthFirst[1], parseInt(monthFirst[2], 10), monthFirst[3] || monthFirst[1], parseInt(monthFirst[4], 10), now);
+  }
+
+  // "15 to 18 dec", "15th dec - 18th dec"
+  const dayFirst = message.match(new RegExp(`\\b${DAY_PATTERN}\\s*(?:${MONTH_PATTERN}\\s*)?${RANGE_SEPARATOR}${DAY_PATTERN}\\s*${MONTH_PATTERN}\\b`));
+  if (dayFirst) {
+    return buildRange(dayFirst[2] || dayFirst[4], parseInt(dayFirst[1], 10), dayFirst[4], parseInt(dayFirst[3], 10), now);
+  }
+
+  return null;
+}
+
+function buildRange(
+  startMonthName: string,
+  startDay: number,
+  endMonthName: string,
+  endDay: number,
+  now: Date
+): { start_date: string; end_date: string } | null {
+  const startMonth = MONTHS.indexOf(startMonthName.substring(0, 3));
+  const endMonth = MONTHS.indexOf(endMonthName.substring(0, 3));
+  if (startMonth < 0 || endMonth < 0) return null;
+
+  // Dates without a year refer to the next occurrence
+  let year = now.getFullYear();
+  const today = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+  if (new Date(Date.UTC(year, startMonth, startDay)) < today) {
+    year++;
+  }
+
+  const start = new Date(Date.UTC(year, startMonth, startDay));
+  const end = new Date(Date.UTC(endMonth < startMonth ? year + 1 : year, endMonth, endDay));
+  if (start.getUTCDate() !== startDay || end.getUTCDate() !== endDay || end <= start) {
+    return null;
+  }
+
+  return {
+    start_date: start.toISOString().split('T')[0],
+    end_date: end.toISOString().split('T')[0]
+  };
+}
+
+function assessParty(party: GapAnalysisInput['party_composition'], message: string): FieldAssessment {
+  if (party) {
+    if (!party.adults || party.adults < 1) {
+      return { field: 'party_composition', status: 'ambiguous', confidence: 0.3, source: 'request', value: party, reason: 'no adults in party' };
+    }
+    return { field: 'party_composition', status: 'provided', confidence: 1, source: 'request', value: party };
+  }
+
+  const count = (pattern: RegExp) => {
+    const match = message.match(pattern);
+    return match ? parseInt(match[1], 10) : null;
+  };
+
+  const adults = count(/\b(\d{1,2})\s*adults?\b/);
+  const children = count(/\b(\d{1,2})\s*(?:kids?|children|child)\b/);
+  const infants = count(/\b(\d{1,2})\s*(?:infants?|bab(?:y|ies)|toddlers?)\b/);
+
+  if (adults !== null) {
+    return {
+      field: 'party_composition',
+      status: 'inferred',
+      confidence: 0.9,
+      source: 'message',
+      value: { adults, children: children || 0, infants: infants || 0 }
+    };
+  }
+
+  const people = count(/\b(\d{1,2})\s*(?:people|persons?|pax|friends|travell?ers|of us)\b/);
+  if (people !== null && children === null && infants === null) {
+    return { field: 'party_composition', status: 'inferred', confidence: 0.75, source: 'message', value: { adults: people, children: 0, infants: 0 } };
+  }
+
+  if (/\b(solo|alone|by myself|just me)\b/.test(message)) {
+    return { field: 'party_composition', status: 'inferred', confidence: 0.85, source: 'message', value: { adults: 1, children: 0, infants: 0 } };
+  }
+
+  if (/\b(couple|honeymoon|anniversary|my (wife|husband|partner|girlfriend|boyfriend))\b/.test(message) && children === null) {
+    return { field: 'party_composition', status: 'inferred', confidence: 0.8, source: 'message', value: { adults: 2, children: 0, infants: 0 } };
+  }
+
+  if (/\b(family|kids?|children|group|friends)\b/.test(message) || people !== null) {
+    return { field: 'party_composition', status: 'ambiguous', confidence: 0.3, source: 'message', reason: 'party mentioned without a breakdown' };
+  }
+
+  return { field: 'party_composition', status: 'missing', confidence: 0, source: null };
+}
+
+function assessBudget(budget: number | undefined, message: string): FieldAssessment {
+  if (budget !== undefined && budget !== null) {
+    if (!(budget > 0)) {
+      return { field: 'budget_per_person', status: 'ambiguous', confidence: 0.2, source: 'request', value: budget, reason: 'budget must be positive' };
+    }
+    return { field: 'budget_per_person', status: 'provided', confidence: 1, source: 'request', value: budget };
+  }
+
+  const amountMatch = message.replace(/,/g, '').match(
+    /(?:₹|rs\.?|inr)\s*(\d+(?:\.\d+)?)\s*(k)?|(\d+(?:\.\d+)?)\s*(k)?\s*(?:₹|rs\b|inr|rupees)|budget\D{0,15}(\d+(?:\.\d+)?)\s*(k)?/
+  );
+
+  if (amountMatch) {
+    const digits = amountMatch[1] || amountMatch[3] || amountMatch[5];
+    const thousands = amountMatch[2] || amountMatch[4] || amountMatch[6];
+    const amount = Math.round(parseFloat(digits) * (thousands ? 1000 : 1));
+    const perPerson = /\b(per person|per head|pp|each|\/person)\b/.test(message);
+
+    if (amount > 0 && perPerson) {
+      return { field: 'budget_per_person', status: 'inferred', confidence: 0.85, source: 'message', value: amount };
+    }
+    return { field: 'budget_per_person', status: 'ambiguous', confidence: 0.5, source: 'message', value: amount, reason: 'unclear whether budget is per person or total' };
+  }
+
+  if (/\b(cheap|budget|affordable|luxury|premium|splurge)\b/.test(message)) {
+    return { field: 'budget_per_person', status: 'ambiguous', confidence: 0.3, source: 'message', reason: 'budget level described without an amount' };
+  }
+
+  return { field: 'budget_per_person', status: 'missing', confidence: 0, source: null };
+}
+
+function assessPreferences(preferences: string[] | undefined, message: string): FieldAssessment {
+  if (preferences && preferences.length > 0) {
+    return { field: 'preferences', status: 'provided', confidence: 1, source: 'request', value: preferences };
+  }
+
+  const interests = INTEREST_OPTIONS.filter(option =>
+    (INTEREST_KEYWORDS[option] || []).some(keyword => new RegExp(`\\b${keyword}`).test(message))
+  );
+
+  if (interests.length > 0) {
+    return { field: 'preferences', status: 'inferred', confidence: 0.75, source: 'message', value: interests };
+  }
+
+  return { field: 'preferences', status: 'missing', confidence: 0, source: null };
+}
@@ -0,0 +1,125 @@
+// Multi-destination trips: ordered, contiguous stays such as
+// North Goa (2 nights) -> South Goa (3 nights) -> Gokarna (1 night)
+
+export interface TripLeg {
+  leg_id: string;
+  destination: string;
+  start_date: string; // check-in, YYYY-MM-DD
+  end_date: string; // check-out; the next leg starts on this date
+  base_location?: {
+    lat: number;
+    lng: number;
+    address?: string;
+  };
+}
+
+export class TripLegError extends Error {
+  readonly code = 'INVALID_LEGS';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'TripLegError';
+    Object.setPrototypeOf(this, TripLegError.prototype);
+  }
+}
+
+export const MAX_TRIP_LEGS = 10;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Validates client-supplied legs and assigns missing leg ids.
+ * Legs must be in travel order, at least one night each, with no gaps or overlaps.
+ */
+export function normalizeTripLegs(input: unknown): TripLeg[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new TripLegError('legs must be a non-empty array');
+  }
+  if (input.length > MAX_TRIP_LEGS) {
+    throw new TripLegError(`a trip can have at most ${MAX_TRIP_LEGS} legs`);
+  }
+
+  const legs = input.map((raw, index): TripLeg => {
+    const leg = raw || {};
+    const position = `leg ${index + 1}`;
+
+    if (typeof leg.destination !== 'string' || !leg.destination.trim()) {
+      throw new TripLegError(`${position}: destination is required`);
+    }
+    if (!isValidDate(leg.start_date) || !isValidDate(leg.end_date)) {
+      throw new TripLegError(`${position}: start_date and end_date must be YYYY-MM-DD dates`);
+    }
+    if (leg.start_date >= leg.end_date) {
+      throw new TripLegError(`${position}: must be at least one night`);
+    }
+
+    const normalized: TripLeg = {
+      leg_id: typeof leg.leg_id === 'string' && leg.leg_id.trim() ? leg.leg_id.trim() : `leg_${index + 1}`,
+      destination: leg.destination.trim(),
+      start_date: leg.start_date,
+      end_date: leg.end_date
+    };
+
+    if (leg.base_location !== undefined) {
+      const { lat, lng, address } = leg.base_location || {};
+      if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        throw new TripLegError(`${position}: base_location requires valid lat and lng`);
+      }
+      normalized.base_location = typeof address === 'string' ? { lat, lng, address } : { lat, lng };
+    }
+
+    return normalized;
+  });
+
+  for (let i = 1; i < legs.length; i++) {
+    if (legs[i].start_date !== legs[i - 1].end_date) {
+      throw new TripLegError(`leg ${i + 1}: must start on ${legs[i - 1].end_date}, when the previous leg ends`);
+    }
+  }
+
+  const ids = legs.map(leg => leg.leg_id);
+  if (ids.some((id, index) => ids.indexOf(id) !== index)) {
+    throw new TripLegError('leg_id values must be unique');
+  }
+
+  return legs;
+}
+
+// Overall trip dates implied by the legs
+export function getTripDatesFromLegs(legs: TripLeg[]): { start_date: string; end_date: string } {
+  return {
+    start_date: legs[0].start_date,
+    end_date: legs[legs.length - 1].end_date
+  };
+}
+
+// Moves every leg so the trip starts on `startDate`, keeping each leg's length
+export function shiftTripLegs(legs: TripLeg[], startDate: string): TripLeg[] {
+  const offset = Date.parse(startDate) - Date.parse(legs[0].start_date);
+  const shift = (date: string) => new Date(Date.parse(date) + offset).toISOString().split('T')[0];
+
+  return legs.map(leg => ({
+    ...leg,
+    start_date: shift(leg.start_date),
+    end_date: shift(leg.end_date)
+  }));
+}
+
+export function getLegNights(leg: TripLeg): number {
+  return Math.round((Date.parse(leg.end_date) - Date.parse(leg.start_date)) / MS_PER_DAY);
+}
+
+// Compact summary for trip titles and prompts, e.g. "North Goa (2 nights), Gokarna (1 night)"
+export function describeTripLegs(legs: TripLeg[]): string {
+  return legs
+    .map(leg => {
+      const nights = getLegNights(leg);
+      return `${leg.destination} (${nights} night${nights === 1 ? '' : 's'})`;
+    })
+    .join(', ');
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
@@ -0,0 +1,133 @@
+import { auditLogger } from '../utils/audit-logger';
+import { TripRepository, tripRepository } from '../repositories/trip-repository';
+import type { Trip, TripStatus } from './trip-service';
+
+export interface TripStatusTransition {
+  from: TripStatus;
+  to: TripStatus;
+  actor: string; // user id, or 'system' for automated transitions
+  reason?: string;
+  transitioned_at: string;
+}
+
+export interface TransitionContext {
+  actor?: string;
+  trace_id: string;
+  reason?: string;
+}
+
+// Runs after a transition is saved; a listener that fails is logged and doesn't undo the transition
+export type TripTransitionListener = (
+  trip: Trip,
+  transition: TripStatusTransition,
+  context: TransitionContext
+) => Promise<void> | void;
+
+/**
+ * Allowed trip status transitions.
+ *
+ * created -> questions_pending -> generating -> ready -> booked -> completed
+ * Generation may fail (and be retried), a ready itinerary may be regenerated,
+ * and any non-terminal trip may be cancelled. completed and cancelled are terminal.
+ */
+export const TRIP_STATUS_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  created: ['questions_pending', 'generating', 'cancelled'],
+  questions_pending: ['questions_pending', 'generating', 'cancelled'],
+  generating: ['ready', 'failed', 'cancelled'],
+  ready: ['questions_pending', 'generating', 'booked', 'cancelled'],
+  booked: ['completed', 'cancelled'],
+  failed: ['generating', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+export class InvalidTripTransitionError extends Error {
+  readonly code = 'INVALID_STATE_TRANSITION';
+
+  constructor(
+    public readonly trip_id: string,
+    public readonly from: TripStatus,
+    public readonly to: TripStatus
+  ) {
+    super(`Trip '${trip_id}' cannot transition from '${from}' to '${to}'`);
+    this.name = 'InvalidTripTransitionError';
+    Object.setPrototypeOf(this, InvalidTripTransitionError.prototype);
+  }
+}
+
+export class TripLifecycle {
+  private listeners: TripTransitionListener[] = [];
+
+  constructor(private repository: TripRepository = tripRepository) {}
+
+  // Returns a function that removes the listener
+  onTransition(listener: TripTransitionListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(candidate => candidate !== listener);
+    };
+  }
+
+  canTransition(from: TripStatus, to: TripStatus): boolean {
+    return TRIP_STATUS_TRANSITIONS[from].includes(to);
+  }
+
+  isTerminal(status: TripStatus): boolean {
+    return TRIP_STATUS_TRANSITIONS[status].length === 0;
+  }
+
+  async transition(trip: Trip, to: TripStatus, context: TransitionContext): Promise<Trip> {
+    const from = trip.status;
+
+    if (!this.canTransition(from, to)) {
+      throw new InvalidTripTransitionError(trip.trip_id, from, to);
+    }
+
+    const transition: TripStatusTransition = {
+      from,
+      to,
+      actor: context.actor || 'system',
+      reason: context.reason,
+      transitioned_at: new Date().toISOString()
+    };
+
+    const updated = await this.repository.updateStatus(trip.trip_id, to, transition);
+    if (!updated) {
+      throw new Error(`Trip '${trip.trip_id}' not found or no longer in status '${from}'`);
+    }
+
+    await auditLogger.log({
+      trace_id: context.trace_id,
+      action: 'trip.status_changed',
+      entity_type: 'trip',
+      entity_id: trip.trip_id,
+      user_id: context.actor,
+      metadata: {
+        from_status: from,
+        to_status: to,
+        reason: context.reason
+      }
+    });
+
+    await this.notify(updated, transition, context);
+    return updated;
+  }
+
+  private async notify(trip: Trip, transition: TripStatusTransition, context: TransitionContext): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(trip, transition, context);
+      } catch (error) {
+        await auditLogger.logError(error instanceof Error ? error : new Error(String(error)), {
+          trace_id: context.trace_id,
+          trip_id: trip.trip_id,
+          from_status: transition.from,
+          to_status: transition.to
+        });
+      }
+    }
+  }
+}
+
+export const tripLifecycle = new TripLifecycle();
+export default TripLifecycle;
@@ -1,12 +1,33 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { auditLogger } from '../utils/audit-logger';
-import { llmOrchestrator } from './llm-orchestrator';
+import { LLMExperiments, OUTCOME_SIGNALS, OutcomeSignalError, llmExperiments } from './llm-experiments';
+import { PromptBuilder } from '../prompts/templates';
+import { delimitUntrusted } from '../utils/prompt-injection';
 import { featureFlags } from '../utils/feature-flags';
+import { TripRepository, TripUpdate, tripRepository } from '../repositories/trip-repository';
+import type { AuthUser } from '../middleware/auth';
+import type { ExperimentUnitIds, OutcomeSignal } from '../repositories/llm-experiment-repository';
+import {
+  TripCollaboration,
+  CollaborationError,
+  TripMember,
+  TripShareLink,
+  ActivityVote
+} from './trip-collaboration';
+import { TripCloning, TripCloningError, TripOverrides } from './trip-cloning';
+import { itineraryRepository } from '../repositories/itinerary-repository';
+import { tripTemplateRepository } from '../repositories/trip-template-repository';
+import { FOLLOW_UP_QUESTIONS_SCHEMA, GAP_QUESTION_IDS, normalizeFollowUpQuestions, getDefaultFollowUpQuestions } from './follow-up-questions';
+import { analyzeTripGaps, getInferredValues, TripInfoField } from './trip-gap-analyzer';
+import { TripLifecycle, TripStatusTransition, InvalidTripTransitionError } from './trip-lifecycle';
+import { IdempotencyService, idempotencyService } from './idempotency';
+import { TripLeg, TripLegError, normalizeTripLegs, getTripDatesFromLegs, shiftTripLegs, describeTripLegs } from './trip-legs';
 
 export interface CreateTripRequest {
-  destination: string;
+  destination?: string; // optional when legs are given
   message: string;
+  legs?: TripLeg[];
   dates?: {
     start_date: string;
     end_date: string;
@@ -20,13 +41,38 @@ export interface CreateTripRequest {
   preferences?: string[];
 }
 
+export type TripStatus =
+  | 'created'
+  | 'questions_pending'
+  | 'generating'
+  | 'ready'
+  | 'booked'
+  | 'completed'
+  | 'cancelled'
+  | 'failed';
+
 export interface Trip {
   trip_id: string;
-  status: 'created' | 'questions_pending' | 'generating' | 'ready' | 'booked';
+  user_id?: string;
+  status: TripStatus;
   destination: string;
+  message?: string;
+  legs?: TripLeg[];
+  dates?: CreateTripRequest['dates'];
+  party_composition?: CreateTripRequest['party_composition'];
+  budget_per_person?: number;
+  preferences?: string[];
   follow_up_questions?: FollowUpQuestion[];
+  answers?: TripAnswer[];
+  status_history?: TripStatusTransition[];
+  members?: TripMember[];
+  share_links?: TripShareLink[];
+  activity_votes?: ActivityVote[];
+  origin?: { type: 'clone' | 'template'; source_id: string };
+  version?: number; // incremented by every write
   created_at: string;
   updated_at: string;
+  deleted_at?: string;
 }
 
 export interface FollowUpQuestion {
@@ -37,116 +83,992 @@ export interface FollowUpQuestion {
   required: boolean;
 }
 
+export type AnswerValue = string | number | string[];
+
+export interface TripAnswer {
+  question_id: string;
+  answer: AnswerValue;
+  answered_at?: string;
+  answered_by?: string;
+}
+
+export interface SubmitAnswersResult {
+  trip: Trip;
+  questionnaire_complete: boolean;
+  next_questions: FollowUpQuestion[];
+}
+
+export interface AnswerIssue {
+  question_id: string;
+  message: string;
+}
+
+export class AnswerValidationError extends Error {
+  readonly code = 'INVALID_ANSWERS';
+
+  constructor(public readonly issues: AnswerIssue[]) {
+    super(`Invalid answers: ${issues.map(issue => `${issue.question_id} (${issue.message})`).join(', ')}`);
+    this.name = 'AnswerValidationError';
+    Object.setPrototypeOf(this, AnswerValidationError.prototype);
+  }
+}
+
 export class TripService {
+  // Stop re-questioning after this many rounds and hand over to generation
+  private readonly MAX_QUESTION_ROUNDS = 3;
+  private readonly MAX_TEXT_ANSWER_LENGTH = 500;
+  private readonly MAX_DESTINATION_LENGTH = 100;
+  private readonly CREATE_TRIP_SCOPE = 'trip.create';
+
+  constructor(
+    private repository: TripRepository = tripRepository,
+    private lifecycle: TripLifecycle = new TripLifecycle(repository),
+    private collaboration: TripCollaboration = new TripCollaboration(repository),
+    private cloning: TripCloning = new TripCloning(
+      repository, itineraryRepository, tripTemplateRepository, lifecycle, collaboration
+    ),
+    private idempotency: IdempotencyService = idempotencyService,
+    private experiments: LLMExperiments = llmExperiments
+  ) {
+    this.experiments.recordBookings(lifecycle);
+  }
+
   async createTrip(req: Request, res: Response): Promise<void> {
     const traceId = req.headers['x-trace-id'] as string || uuidv4();
-    
+    const idempotencyKey = req.headers['idempotency-key'] as string | undefined;
+    let reservedKey: string | null = null;
+
     try {
-      const { destination, message, dates, party_composition, budget_per_person, preferences }: CreateTripRequest = req.body;
-      
-      // Validate required fields
-      if (!destination || !message) {
+      const user = this.requireUser(req, res, traceId);
+      if (!user) return;
+
+      // Retries carrying the same Idempotency-Key get the original response instead of a second trip
+      if (idempotencyKey !== undefined) {
+        if (!this.idempotency.isValidKey(idempotencyKey)) {
+          res.status(400).json({
+            error: {
+              code: 'INVALID_INPUT',
+              message: 'Idempotency-Key must be 1-255 printable ASCII characters',
+              trace_id: traceId
+            }
+          });
+          return;
+        }
+
+        const outcome = await this.idempotency.begin(this.CREATE_TRIP_SCOPE, user.id, idempotencyKey, req.body);
+        if (outcome.type === 'replay') {
+          res.setHeader('Idempotent-Replayed', 'true');
+          res.status(outcome.status).json(outcome.body);
+          return;
+        }
+        if (outcome.type === 'fingerprint_mismatch') {
+          res.status(422).json({
+            error: {
+              code: 'IDEMPOTENCY_KEY_REUSED',
+              message: 'Idempotency-Key was already used with a different request body',
+              trace_id: traceId
+            }
+          });
+          return;
+        }
+        if (outcome.type === 'in_progress') {
+          res.status(409).json({
+            error: {
+              code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+              message: 'A request with this Idempotency-Key is still being processed',
+              trace_id: traceId
+            }
+          });
+          return;
+        }
+        reservedKey = idempotencyKey;
+      }
+
+      let result: { status: number; body: unknown };
+      try {
+        result = await this.createTripForUser(req.body, user, traceId);
+      } catch (error) {
+        // Nothing was created, so the client may retry with the same key
+        if (reservedKey) {
+          await this.idempotency.release(this.CREATE_TRIP_SCOPE, user.id, reservedKey).catch(() => undefined);
+        }
+        throw error;
+      }
+
+      if (reservedKey && result.status === 201) {
+        // The trip exists: if its response can't be stored the claim stays in progress, so a retry can't create a second one
+        await this.idempotency
+          .complete(this.CREATE_TRIP_SCOPE, user.id, reservedKey, result.status, result.body)
+          .catch(error => auditLogger.logError(error, {
+            trace_id: traceId,
+            scope: this.CREATE_TRIP_SCOPE,
+            user_id: user.id,
+            idempotency_key: reservedKey
+          }));
+      } else if (reservedKey) {
+        await this.idempotency.release(this.CREATE_TRIP_SCOPE, user.id, reservedKey).catch(() => undefined);
+      }
+
+      res.status(result.status).json(result.body);
+    } catch (error) {
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create trip',
+          trace_id: traceId
+        }
+      });
+    }
+  }
+
+  async getTrip(req: Request, res: Response): Promise<void> {
+    const { tripId } = req.params;
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+
+    try {
+      const user = this.requireUser(req, res, traceId);
+      if (!user) return;
+
+      const trip = await this.repository.findById(tripId);
+
+      // Trips the user isn't a member of are reported as missing so IDs can't be probed
+      if (!trip || !this.collaboration.can(trip, user.id, 'view')) {
+        this.sendNotFound(res, tripId, traceId);
+        return;
+      }
+
+      res.json(this.toResponse(trip));
+    } catch (error) {
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch trip',
+          trace_id: traceId
+        }
+      });
+    }
+  }
+
+  async listTrips(req: Request, res: Response): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+
+    try {
+      const user = this.requireUser(req, res, traceId);
+      if (!user) return;
+
+      const page = this.parsePage(req.query);
+      if (typeof page === 'string') {
         res.status(400).json({
           error: {
             code: 'INVALID_INPUT',
-            message: 'destination and message are required',
+            message: page,
             trace_id: traceId
           }
         });
         return;
       }
 
-      const tripId = uuidv4();
-      
-      // Generate follow-up questions using LLM
-      const followUpQuestions = await this.generateFollowUpQuestions(message, {
-        destination,
-        dates,
-        party_composition,
-        budget_per_person,
-        preferences
+      const [trips, total] = await Promise.all([
+        this.repository.listByUser(user.id, page),
+        this.repository.countByUser(user.id)
+      ]);
+
+      res.json({ trips: trips.map(trip => this.toResponse(trip)), total });
+    } catch (error) {
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch trips',
+          trace_id: traceId
+        }
       });
+    }
+  }
 
-      const trip: Trip = {
-        trip_id: tripId,
-        status: followUpQuestions.length > 0 ? 'questions_pending' : 'generating',
-        destination,
-        follow_up_questions: followUpQuestions,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
+  async deleteTrip(req: Request, res: Response): Promise<void> {
+    const { tripId } = req.params;
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
 
-      // Store in database (stub)
-      // await db.trips.create(trip);
+    try {
+      const user = this.requireUser(req, res, traceId);
+      if (!user) return;
+
+      const trip = await this.repository.findById(tripId);
+      if (trip) {
+        this.collaboration.assertCan(trip, user.id, 'delete');
+      }
+
+      const deleted = trip && await this.repository.softDelete(tripId);
+
+      if (!deleted) {
+        this.sendNotFound(res, tripId, traceId);
+        return;
+      }
 
-      // Audit log
       await auditLogger.log({
         trace_id: traceId,
-        action: 'trip.created',
+        action: 'trip.deleted',
         entity_type: 'trip',
         entity_id: tripId,
-        user_id: req.user?.id
+        user_id: user.id
       });
 
-      res.status(201).json(trip);
+      res.status(204).send();
     } catch (error) {
+      if (error instanceof CollaborationError) {
+        this.sendCollaborationError(res, error, traceId);
+        return;
+      }
+
       res.status(500).json({
         error: {
           code: 'INTERNAL_ERROR',
-          message: 'Failed to create trip',
+          message: 'Failed to delete trip',
           trace_id: traceId
         }
       });
     }
   }
 
-  async getTrip(req: Request, res: Response): Promise<void> {
+  async submitAnswers(
+    tripId: string,
+    answers: TripAnswer[],
+    context: { actor?: string; trace_id: string }
+  ): Promise<SubmitAnswersResult | null> {
+    const trip = await this.repository.findById(tripId);
+    if (!trip || !context.actor || !this.collaboration.getRole(trip, context.actor)) {
+      return null;
+    }
+    const actor = context.actor;
+    const answeredAt = new Date().toISOString();
+
+    // Merged into the version that was read, so members answering at the same time keep each other's answers
+    const { trip: answeredTrip, result: normalizedAnswers } = await this.collaboration.updateTrip(
+      () => this.loadTrip(tripId),
+      current => {
+        this.collaboration.assertCan(current, actor, 'answer');
+        if (current.status !== 'questions_pending') {
+          throw new InvalidTripTransitionError(current.trip_id, current.status, 'generating');
+        }
+
+        const normalized = this.validateAnswers(answers, current.follow_up_questions || []);
+
+        // Later answers to the same question replace earlier ones
+        const merged = (current.answers || [])
+          .filter(existing => !normalized.some(answer => answer.question_id === existing.question_id))
+          .concat(normalized.map(answer => ({ ...answer, answered_at: answeredAt, answered_by: actor })));
+
+        return {
+          changes: { ...this.applyAnswersToTripFields(current, normalized), answers: merged },
+          result: normalized
+        };
+      }
+    );
+    let updatedTrip = answeredTrip;
+    const questions = updatedTrip.follow_up_questions || [];
+    const mergedAnswers = updatedTrip.answers || [];
+
+    await auditLogger.log({
+      trace_id: context.trace_id,
+      action: 'trip.answers_submitted',
+      entity_type: 'trip',
+      entity_id: tripId,
+      user_id: context.actor,
+      metadata: {
+        question_ids: normalizedAnswers.map(answer => answer.question_id)
+      }
+    });
+
+    let nextQuestions = this.getUnansweredQuestions(questions, mergedAnswers, true);
+    let startedNewRound = false;
+
+    // All required questions answered: ask again only if essential information is still missing
+    const questionRounds = (updatedTrip.status_history || []).filter(t => t.to === 'questions_pending').length;
+    const gapAnalysis = analyzeTripGaps(updatedTrip);
+    if (nextQuestions.length === 0 && !gapAnalysis.complete && questionRounds < this.MAX_QUESTION_ROUNDS) {
+      const additionalQuestions = this.getUnansweredQuestions(
+        await this.generateFollowUpQuestions(updatedTrip.message || '', {
+          destination: updatedTrip.destination,
+          dates: updatedTrip.dates,
+          party_composition: updatedTrip.party_composition,
+          budget_per_person: updatedTrip.budget_per_person,
+          preferences: updatedTrip.preferences,
+          answers: mergedAnswers
+        }, gapAnalysis.gaps, { user_id: context.actor, trip_id: tripId }, context.trace_id),
+        mergedAnswers,
+        false
+      ).filter(question => !questions.some(existing => existing.question_id === question.question_id));
+
+      if (additionalQuestions.length > 0) {
+        const { trip: askedTrip } = await this.collaboration.updateTrip(() => this.loadTrip(tripId), current => {
+          const asked = current.follow_up_questions || [];
+          const added = additionalQuestions.filter(question => !asked.some(existing => existing.question_id === question.question_id));
+          return { changes: added.length > 0 ? { follow_up_questions: [...asked, ...added] } : undefined, result: added };
+        });
+        updatedTrip = askedTrip;
+        nextQuestions = additionalQuestions;
+        startedNewRound = true;
+      }
+    }
+
+    if (nextQuestions.length > 0) {
+      const trip = startedNewRound
+        ? await this.lifecycle.transition(updatedTrip, 'questions_pending', {
+          actor: context.actor,
+          trace_id: context.trace_id,
+          reason: 'additional_questions'
+        })
+        : updatedTrip;
+
+      return { trip, questionnaire_complete: false, next_questions: nextQuestions };
+    }
+
+    const readyTrip = await this.lifecycle.transition(updatedTrip, 'generating', {
+      actor: context.actor,
+      trace_id: context.trace_id,
+      reason: 'questionnaire_complete'
+    });
+
+    return { trip: readyTrip, questionnaire_complete: true, next_questions: [] };
+  }
+
+  async handleSubmitAnswers(req: Request, res: Response): Promise<void> {
     const { tripId } = req.params;
     const traceId = req.headers['x-trace-id'] as string || uuidv4();
 
     try {
-      // Database query stub
-      // const trip = await db.trips.findById(tripId);
-      
-      const mockTrip: Trip = {
-        trip_id: tripId,
-        status: 'ready',
-        destination: 'Goa',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
+      const user = this.requireUser(req, res, traceId);
+      if (!user) return;
+
+      const { answers } = req.body || {};
+
+      if (!Array.isArray(answers) || answers.length === 0 ||
+          answers.some((answer: any) => !answer || typeof answer.question_id !== 'string')) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'answers must be a non-empty array of { question_id, answer }',
+            trace_id: traceId
+          }
+        });
+        return;
+      }
 
-      res.json(mockTrip);
+      const result = await this.submitAnswers(tripId, answers, { actor: user.id, trace_id: traceId });
+
+      if (!result) {
+        this.sendNotFound(res, tripId, traceId);
+        return;
+      }
+
+      res.json({ ...result, trip: this.toResponse(result.trip) });
     } catch (error) {
-      res.status(404).json({
+      if (error instanceof CollaborationError) {
+        this.sendCollaborationError(res, error, traceId);
+        return;
+      }
+
+      if (error instanceof AnswerValidationError) {
+        res.status(400).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.issues,
+            trace_id: traceId
+          }
+        });
+        return;
+      }
+
+      if (error instanceof InvalidTripTransitionError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: `Trip is in status '${error.from}' and is not accepting answers`,
+            trace_id: traceId
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
         error: {
-          code: 'NOT_FOUND',
-          message: `Trip with ID '${tripId}' not found`,
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to submit answers',
           trace_id: traceId
         }
       });
     }
   }
 
-  private async generateFollowUpQuestions(message: string, context: any): Promise<FollowUpQuestion[]> {
-    if (!await featureFlags.isEnabled('llm_orchestration')) {
+  async listMembers(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to fetch trip members', async context => {
+      const members = await this.collaboration.listMembers(req.params.tripId, context);
+      res.json({ members });
+    });
+  }
+
+  async inviteMember(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to invite member', async context => {
+      const { email, role = 'editor' } = req.body || {};
+      const result = await this.collaboration.inviteByEmail(req.params.tripId, email, role, context);
+      res.status(201).json(result);
+    });
+  }
+
+  async createShareLink(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to create share link', async context => {
+      const { role = 'viewer', expires_in_hours } = req.body || {};
+      const result = await this.collaboration.createShareLink(req.params.tripId, role, context, expires_in_hours);
+      res.status(201).json(result);
+    });
+  }
+
+  async revokeShareLink(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to revoke share link', async context => {
+      await this.collaboration.revokeShareLink(req.params.tripId, req.params.linkId, context);
+      res.status(204).send();
+    });
+  }
+
+  async joinTrip(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to join trip', async context => {
+      const { trip, role } = await this.collaboration.acceptInvitation((req.body || {}).token, context);
+      res.json({ trip: this.toResponse(trip), role });
+    });
+  }
+
+  async updateMemberRole(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to update member', async context => {
+      const member = await this.collaboration.updateMemberRole(
+        req.params.tripId,
+        req.params.memberId,
+        (req.body || {}).role,
+        context
+      );
+      res.json(member);
+    });
+  }
+
+  async removeMember(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to remove member', async context => {
+      await this.collaboration.removeMember(req.params.tripId, req.params.memberId, context);
+      res.status(204).send();
+    });
+  }
+
+  async voteOnActivity(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to record vote', async context => {
+      const { vote } = req.body || {};
+      const votes = await this.collaboration.voteOnActivity(req.params.tripId, req.params.activityId, vote, context);
+      res.json({
+        activity_id: req.params.activityId,
+        up: votes.filter(v => v.vote === 'up').length,
+        down: votes.filter(v => v.vote === 'down').length,
+        votes
+      });
+    });
+  }
+
+  // The client reports what the traveller did with the generated itinerary; booking is recorded on the status change
+  async recordItineraryOutcome(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to record itinerary outcome', async context => {
+      const { signal } = req.body || {};
+      const reportable = OUTCOME_SIGNALS.filter(candidate => candidate !== 'booked');
+      if (!reportable.includes(signal)) {
+        throw new OutcomeSignalError(signal, reportable);
+      }
+
+      const trip = await this.repository.findById(req.params.tripId);
+      if (!trip) {
+        throw new CollaborationError('NOT_FOUND', `Trip with ID '${req.params.tripId}' not found`);
+      }
+      this.collaboration.assertCan(trip, context.actor.id, 'answer');
+
+      const outcomes = await this.experiments.recordOutcome(signal as OutcomeSignal, { user_id: trip.user_id, trip_id: trip.trip_id }, context.trace_id);
+      res.status(202).json({ signal, experiments: outcomes.map(outcome => outcome.experiment_key) });
+    });
+  }
+
+  async cloneTrip(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to clone trip', async context => {
+      const { trip, itinerary } = await this.cloning.cloneTrip(req.params.tripId, this.getOverrides(req.body), context);
+      res.status(201).json({ trip: this.toResponse(trip), itinerary });
+    });
+  }
+
+  async publishTemplate(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to publish template', async context => {
+      const { title, description } = req.body || {};
+      const template = await this.cloning.publishTemplate(req.params.tripId, { title, description }, context);
+      res.status(201).json(template);
+    });
+  }
+
+  async listTemplates(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to fetch templates', async ({ trace_id }) => {
+      const page = this.parsePage(req.query);
+      if (typeof page === 'string') {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_INPUT',
+            message: page,
+            trace_id
+          }
+        });
+        return;
+      }
+
+      const destination = req.query.destination as string | undefined;
+      const [templates, total] = await Promise.all([
+        this.cloning.listTemplates({ destination, ...page }),
+        this.cloning.countTemplates({ destination })
+      ]);
+      res.json({ templates, total });
+    });
+  }
+
+  async createTripFromTemplate(req: Request, res: Response): Promise<void> {
+    await this.handleAuthenticated(req, res, 'Failed to create trip from template', async context => {
+      const { trip, itinerary } = await this.cloning.createTripFromTemplate(
+        req.params.templateId,
+        this.getOverrides(req.body),
+        context
+      );
+      res.status(201).json({ trip: this.toResponse(trip), itinerary });
+    });
+  }
+
+  // Returns the page window, or an error message describing the invalid parameter
+  private parsePage(query: Request['query']): { limit?: number; offset?: number } | string {
+    const page: { limit?: number; offset?: number } = {};
+
+    for (const name of ['limit', 'offset'] as const) {
+      const raw = query[name];
+      if (raw === undefined || raw === '') continue;
+
+      if (typeof raw !== 'string' || !/^\d+$/.test(raw)) {
+        return `${name} must be a non-negative integer`;
+      }
+      page[name] = parseInt(raw, 10);
+    }
+
+    if (page.limit === 0) {
+      return 'limit must be at least 1';
+    }
+    return page;
+  }
+
+  private getOverrides(body: any): TripOverrides {
+    const { dates, party_composition, budget_per_person } = body || {};
+    return { dates, party_composition, budget_per_person };
+  }
+
+  private async handleAuthenticated(
+    req: Request,
+    res: Response,
+    failureMessage: string,
+    handler: (context: { actor: AuthUser; trace_id: string }) => Promise<void>
+  ): Promise<void> {
+    const traceId = req.headers['x-trace-id'] as string || uuidv4();
+
+    try {
+      const user = this.requireUser(req, res, traceId);
+      if (!user) return;
+
+      await handler({ actor: user, trace_id: traceId });
+    } catch (error) {
+      if (error instanceof CollaborationError) {
+        this.sendCollaborationError(res, error, traceId);
+        return;
+      }
+
+      if (error instanceof OutcomeSignalError) {
+        res.status(400).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            trace_id: traceId
+          }
+        });
+        return;
+      }
+
+      if (error instanceof TripCloningError) {
+        res.status(error.code === 'NOT_FOUND' ? 404 : 400).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            trace_id: traceId
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: failureMessage,
+          trace_id: traceId
+        }
+      });
+    }
+  }
+
+  private sendCollaborationError(res: Response, error: CollaborationError, traceId: string): void {
+    res.status(error.status).json({
+      error: {
+        code: error.code,
+        message: error.message,
+        trace_id: traceId
+      }
+    });
+  }
+
+  // Share link and invitation token hashes never leave the service
+  private toResponse(trip: Trip): Omit<Trip, 'share_links'> {
+    const { share_links, ...publicTrip } = trip;
+    return {
+      ...publicTrip,
+      members: (trip.members || []).map(({ invite_token_hash, ...member }) => member)
+    };
+  }
+
+  private validateAnswers(answers: TripAnswer[], questions: FollowUpQuestion[]): TripAnswer[] {
+    const issues: AnswerIssue[] = [];
+    const normalized: TripAnswer[] = [];
+
+    for (const { question_id, answer } of answers) {
+      const question = questions.find(q => q.question_id === question_id);
+      if (!question) {
+        issues.push({ question_id, message: 'unknown question' });
+        continue;
+      }
+
+      const result = this.normalizeAnswer(question, answer);
+      if (typeof result === 'string') {
+        issues.push({ question_id, message: result });
+      } else {
+        normalized.push({ question_id, answer: result.value });
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new AnswerValidationError(issues);
+    }
+
+    return normalized;
+  }
+
+  // Returns the normalized value, or an error message describing why the answer is invalid
+  private normalizeAnswer(question: FollowUpQuestion, answer: unknown): { value: AnswerValue } | string {
+    const isBlank = answer === undefined || answer === null ||
+      (typeof answer === 'string' && answer.trim() === '') ||
+      (Array.isArray(answer) && answer.length === 0);
+
+    if (isBlank) {
+      return question.required ? 'answer is required' : { value: '' };
+    }
+
+    switch (question.type) {
+      case 'single_choice': {
+        const option = this.matchOption(question.options || [], answer);
+        return option !== null ? { value: option } : `must be one of: ${(question.options || []).join(', ')}`;
+      }
+
+      case 'multiple_choice': {
+        const values = Array.isArray(answer) ? answer : String(answer).split(',');
+        const options = values.map(value => this.matchOption(question.options || [], value));
+        if (options.some(option => option === null)) {
+          return `each choice must be one of: ${(question.options || []).join(', ')}`;
+        }
+        return { value: options.filter((option, index) => options.indexOf(option) === index) as string[] };
+      }
+
+      case 'number': {
+        const value = typeof answer === 'number' ? answer : Number(String(answer).replace(/[,₹\s]/g, ''));
+        if (!isFinite(value)) {
+          return 'must be a number';
+        }
+        if (value < 0) {
+          return 'must not be negative';
+        }
+        // Party sizes count people
+        return GAP_QUESTION_IDS.party_composition.includes(question.question_id) && !Number.isInteger(value)
+          ? 'must be a whole number'
+          : { value };
+      }
+
+      case 'date': {
+        const value = String(answer).trim();
+        return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime())
+          ? { value }
+          : 'must be a date in YYYY-MM-DD format';
+      }
+
+      case 'text':
+      default: {
+        if (typeof answer !== 'string') {
+          return 'must be text';
+        }
+        return answer.length <= this.MAX_TEXT_ANSWER_LENGTH
+          ? { value: answer.trim() }
+          : `must be at most ${this.MAX_TEXT_ANSWER_LENGTH} characters`;
+      }
+    }
+  }
+
+  private matchOption(options: string[], value: unknown): string | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+    const normalized = value.trim().toLowerCase();
+    return options.find(option => option.toLowerCase() === normalized) || null;
+  }
+
+  private getUnansweredQuestions(
+    questions: FollowUpQuestion[],
+    answers: TripAnswer[],
+    requiredOnly: boolean
+  ): FollowUpQuestion[] {
+    return questions.filter(question =>
+      (!requiredOnly || question.required) &&
+      !answers.some(answer => answer.question_id === question.question_id)
+    );
+  }
+
+  // Copies answers to well-known questions onto the structured trip fields
+  private applyAnswersToTripFields(trip: Trip, answers: TripAnswer[]): TripUpdate {
+    const changes: TripUpdate = {};
+    const valueOf = (questionId: string) => answers.find(answer => answer.question_id === questionId)?.answer;
+
+    const startDate = valueOf('start_date');
+    const endDate = valueOf('end_date');
+    if (trip.legs && trip.legs.length > 0) {
+      // Leg lengths are fixed; a new start date moves the whole route
+      if (startDate) {
+        changes.legs = shiftTripLegs(trip.legs, String(startDate));
+        changes.dates = getTripDatesFromLegs(changes.legs);
+      }
+    } else if (startDate || endDate) {
+      // Only answered dates change; an end date nobody answered stays as it was (or unset until asked)
+      changes.dates = {
+        ...trip.dates,
+        ...(startDate ? { start_date: String(startDate) } : {}),
+        ...(endDate ? { end_date: String(endDate) } : {})
+      } as Trip['dates'];
+    }
+
+    const budget = valueOf('budget_per_person');
+    if (typeof budget === 'number') {
+      changes.budget_per_person = budget;
+    }
+
+    const adults = valueOf('adults');
+    const children = valueOf('children');
+    const infants = valueOf('infants');
+    if (typeof adults === 'number' || typeof children === 'number' || typeof infants === 'number') {
+      const current = trip.party_composition || { adults: 1, children: 0, infants: 0 };
+      changes.party_composition = {
+        adults: typeof adults === 'number' ? adults : current.adults,
+        children: typeof children === 'number' ? children : current.children,
+        infants: typeof infants === 'number' ? infants : current.infants
+      };
+    }
+
+    const interests = valueOf('interests');
+    if (Array.isArray(interests) && interests.length > 0) {
+      changes.preferences = interests;
+    }
+
+    return changes;
+  }
+
+  private async createTripForUser(
+    body: CreateTripRequest,
+    user: AuthUser,
+    traceId: string
+  ): Promise<{ status: number; body: unknown }> {
+    const { message, party_composition, budget_per_person, preferences } = body || ({} as CreateTripRequest);
+    let { destination, dates } = body || ({} as CreateTripRequest);
+
+    // Multi-destination trips: the legs define the trip dates
+    let legs: TripLeg[] | undefined;
+    if (body && body.legs !== undefined) {
+      try {
+        legs = normalizeTripLegs(body.legs);
+      } catch (error) {
+        if (error instanceof TripLegError) {
+          return {
+            status: 400,
+            body: { error: { code: error.code, message: error.message, trace_id: traceId } }
+          };
+        }
+        throw error;
+      }
+      dates = getTripDatesFromLegs(legs);
+      destination = destination || describeTripLegs(legs).slice(0, this.MAX_DESTINATION_LENGTH);
+    }
+
+    // Validate required fields
+    if (!destination || !message) {
+      return {
+        status: 400,
+        body: {
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'destination (or legs) and message are required',
+            trace_id: traceId
+          }
+        }
+      };
+    }
+
+    const tripId = uuidv4();
+
+    // Only ask about information the request and message don't already cover
+    const gapAnalysis = analyzeTripGaps({ message, dates, party_composition, budget_per_person, preferences });
+    const inferred = getInferredValues(gapAnalysis);
+    const details = {
+      dates: dates || inferred.dates,
+      party_composition: party_composition || inferred.party_composition,
+      budget_per_person: budget_per_person ?? inferred.budget_per_person,
+      preferences: preferences && preferences.length > 0 ? preferences : inferred.preferences
+    };
+
+    const followUpQuestions = gapAnalysis.complete
+      ? []
+      : await this.generateFollowUpQuestions(message, { destination, ...details }, gapAnalysis.gaps, { user_id: user.id, trip_id: tripId }, traceId);
+
+    const now = new Date().toISOString();
+    const createdTrip = await this.repository.create({
+      trip_id: tripId,
+      user_id: user.id,
+      status: 'created',
+      destination,
+      message,
+      legs,
+      ...details,
+      follow_up_questions: followUpQuestions,
+      status_history: [],
+      created_at: now,
+      updated_at: now
+    });
+
+    const trip = await this.lifecycle.transition(
+      createdTrip,
+      followUpQuestions.length > 0 ? 'questions_pending' : 'generating',
+      { actor: user.id, trace_id: traceId }
+    );
+
+    // Audit log
+    await auditLogger.log({
+      trace_id: traceId,
+      action: 'trip.created',
+      entity_type: 'trip',
+      entity_id: tripId,
+      user_id: user.id
+    });
+
+    return { status: 201, body: this.toResponse(trip) };
+  }
+
+  private requireUser(req: Request, res: Response, traceId: string): AuthUser | null {
+    if (req.user) {
+      return req.user;
+    }
+
+    res.status(401).json({
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+        trace_id: traceId
+      }
+    });
+    return null;
+  }
+
+  private async loadTrip(tripId: string): Promise<Trip> {
+    const trip = await this.repository.findById(tripId);
+    if (!trip) {
+      throw new CollaborationError('NOT_FOUND', `Trip with ID '${tripId}' not found`);
+    }
+    return trip;
+  }
+
+  private sendNotFound(res: Response, tripId: string, traceId: string): void {
+    res.status(404).json({
+      error: {
+        code: 'NOT_FOUND',
+        message: `Trip with ID '${tripId}' not found`,
+        trace_id: traceId
+      }
+    });
+  }
+
+  private async generateFollowUpQuestions(
+    message: string,
+    context: any,
+    gaps: TripInfoField[],
+    unit: ExperimentUnitIds,
+    traceId?: string
+  ): Promise<FollowUpQuestion[]> {
+    if (gaps.length === 0) {
       return [];
     }
 
-    const prompt = `Based on the travel request: "${message}" and context: ${JSON.stringify(context)}, 
-    generate 2-3 follow-up questions to optimize the itinerary. Return as JSON array.`;
+    const fallbackQuestions = getDefaultFollowUpQuestions(gaps);
+
+    if (!await featureFlags.isEnabled('llm_orchestration')) {
+      return fallbackQuestions;
+    }
+
+    // Answers are copied onto the trip by question ID, so only the IDs for the missing fields are offered
+    const questionIds = gaps.reduce((ids: string[], gap) => ids.concat(GAP_QUESTION_IDS[gap]), []);
+
+    // The message is the user's own text: delimited like {user_message} in the prompt templates
+    const request = delimitUntrusted(PromptBuilder.sanitizeInput(message));
+    const prompt = `Based on the travel request: ${request} and context: ${PromptBuilder.contextBlock('context', JSON.stringify(context))}, 
+    generate 2-3 follow-up questions to optimize the itinerary. Only ask about missing information: ${gaps.join(', ')}.
+    Each question needs "question_id" (one of ${questionIds.join(', ')}; one question per ID), "question",
+    "type" (one of single_choice, multiple_choice, text, number, date), "options" (for choice types) and "required" (boolean).
+    Dates are asked as separate start_date and end_date questions of type date.`;
 
     try {
-      const response = await llmOrchestrator.generate({
+      // A running experiment on itinerary.create may serve these from another provider or model
+      const { data } = await this.experiments.generateStructured<unknown>({
         prompt,
         provider: 'rocket',
+        task: 'itinerary.create',
+        user_id: unit.user_id,
+        trace_id: traceId,
         max_tokens: 500
-      });
+      }, FOLLOW_UP_QUESTIONS_SCHEMA, unit, { max_repairs: 1 });
+
+      const questions = normalizeFollowUpQuestions(data);
+      if (questions.length === 0) {
+        await this.logFollowUpFallback(unit, traceId, { reason: 'no_usable_questions' });
+        return fallbackQuestions;
+      }
 
-      return response.questions || [];
+      return questions;
     } catch (error) {
-      console.error('Failed to generate follow-up questions:', error);
-      return [];
+      await this.logFollowUpFallback(unit, traceId, {
+        reason: 'generation_failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return fallbackQuestions;
     }
   }
+
+  private async logFollowUpFallback(unit: ExperimentUnitIds, traceId: string | undefined, metadata: Record<string, any>): Promise<void> {
+    await auditLogger.log({
+      trace_id: traceId || uuidv4(),
+      action: 'trip.follow_up_questions_fallback',
+      entity_type: 'trip',
+      entity_id: unit.trip_id,
+      user_id: unit.user_id,
+      metadata
+    });
+  }
 }
@@ -61,6 +61,14 @@ class FeatureFlagService {
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       },
+      {
+        flag_name: 'vision_model_enabled',
+        enabled: false,
+        description: 'Enable LLM vision analysis during photo verification',
+        conditions: {},
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      },
       {
         flag_name: 'llm_orchestration',
         enabled: true,
@@ -0,0 +1,85 @@
+/**
+ * Helpers for pulling JSON out of raw LLM output.
+ *
+ * Models frequently wrap JSON in markdown code fences or surround it with prose
+ * ("Sure! Here are the questions: ..."), so a plain JSON.parse is not enough.
+ */
+
+const CODE_FENCE_PATTERN = /```(?:json|JSON)?\s*([\s\S]*?)```/g;
+
+export function extractJson(content: string): unknown | null {
+  if (!content || typeof content !== 'string') {
+    return null;
+  }
+
+  const candidates: string[] = [content.trim()];
+
+  // Prefer fenced blocks, in order of appearance
+  let match: RegExpExecArray | null;
+  CODE_FENCE_PATTERN.lastIndex = 0;
+  while ((match = CODE_FENCE_PATTERN.exec(content)) !== null) {
+    candidates.push(match[1].trim());
+  }
+
+  // Fall back to the first balanced object or array embedded in prose
+  const embedded = findBalancedJson(content);
+  if (embedded) {
+    candidates.push(embedded);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
+
+function findBalancedJson(content: string): string | null {
+  for (let start = 0; start < content.length; start++) {
+    const opening = content[start];
+    if (opening !== '{' && opening !== '[') continue;
+
+    const closing = opening === '{' ? '}' : ']';
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < content.length; i++) {
+      const char = content[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === opening) {
+        depth++;
+      } else if (char === closing) {
+        depth--;
+        if (depth === 0) {
+          const candidate = content.substring(start, i + 1);
+          try {
+            JSON.parse(candidate);
+            return candidate;
+          } catch (error) {
+            break; // Not valid JSON, keep scanning from the next opening bracket
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
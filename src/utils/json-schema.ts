@@ -0,0 +1,176 @@
+/**
+ * Minimal JSON Schema validation for LLM output.
+ *
+ * Covers the subset of draft-07 our prompts use: type (including type arrays for
+ * nullable fields), enum, const, properties, required, additionalProperties,
+ * items, min/max for numbers, strings and arrays, pattern and anyOf. Unknown
+ * keywords are ignored rather than rejected.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+}
+
+const MAX_ERRORS = 20;
+
+// Returns human-readable errors ("$.questions[0].type: must be string"); empty when valid
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, '$', errors);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+function validateNode(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) return;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: must be ${types.join(' or ')}`);
+      return; // nested checks would only repeat the type error
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => {
+      const optionErrors: string[] = [];
+      validateNode(value, option, path, optionErrors);
+      return optionErrors.length === 0;
+    });
+    if (!matches) {
+      errors.push(`${path}: does not match any allowed shape`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, `${path}[${index}]`, errors));
+    }
+  } else if (isPlainObject(value)) {
+    (schema.required || []).forEach(key => {
+      if (!(key in value)) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    });
+
+    Object.keys(value).forEach(key => {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(value[key], propertySchema, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(value[key], schema.additionalProperties, `${path}.${key}`, errors);
+      }
+    });
+  }
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return typeof value === 'number' && Math.floor(value) === value;
+    case 'number': return typeof value === 'number' && isFinite(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+}
+
+/**
+ * Smallest value that satisfies `schema`: required properties only, minItems
+ * items, minLength strings. Used by the fake LLM provider to answer structured
+ * prompts offline; patterns are not honoured.
+ */
+export function sampleJsonSchema(schema: JsonSchema): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+  if (schema.anyOf && schema.anyOf.length > 0) return sampleJsonSchema(schema.anyOf[0]);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const sample: Record<string, unknown> = {};
+      (schema.required || []).forEach(key => {
+        sample[key] = sampleJsonSchema(schema.properties?.[key] || {});
+      });
+      return sample;
+    }
+    case 'array': {
+      const items: unknown[] = [];
+      for (let i = 0; i < (schema.minItems || 0); i++) {
+        items.push(sampleJsonSchema(schema.items || {}));
+      }
+      return items;
+    }
+    case 'string': {
+      let text = 'sample';
+      while (text.length < (schema.minLength || 0)) text += ' sample';
+      return schema.maxLength !== undefined ? text.slice(0, schema.maxLength) : text;
+    }
+    case 'number':
+    case 'integer':
+      return schema.minimum !== undefined ? Math.ceil(schema.minimum) : 0;
+    case 'boolean': return false;
+    default: return null;
+  }
+}